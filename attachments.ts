@@ -0,0 +1,110 @@
+const storeName = 'attachments'
+
+/**
+ * AttachmentStore
+ * ===============
+ * Files dropped or pasted into an editor.  Each file gets a path that is unique in the
+ * store and documents refer to files by their paths, like an org `[[file:path]]` link.
+ * `url(path)` returns an object URL a renderer can use to show a file.
+ *
+ * Files are kept in memory.  Given a database name, the store also saves them in IndexedDB
+ * and `load()` reads the ones saved in earlier sessions.  `put()` waits for them to load
+ * first, so it cannot pick the path of a saved file.
+ *
+ * Methods
+ * -------
+ * * `put(file) -> Promise<path>`: store a file under a path made from its name
+ * * `get(path) -> Blob`: a stored file, or undefined
+ * * `url(path) -> string`: an object URL for a stored file, or null
+ * * `remove(path) -> Promise`: remove a file
+ * * `load() -> Promise`: read the files saved in IndexedDB; `put()` calls this if it has not been called yet
+ */
+export class AttachmentStore {
+    files = new Map<string, Blob>()
+    urls = new Map<string, string>()
+    dbName: string
+    db: Promise<IDBDatabase> = null
+    loading: Promise<void> = null
+
+    constructor(dbName: string = null) {
+        this.dbName = dbName
+    }
+
+    put(file: File) {
+        return (this.loading ?? this.load()).then(()=> {
+            const path = this.uniquePath(file.name || 'attachment')
+
+            this.files.set(path, file)
+            return this.transaction('readwrite', (store)=> store.put(file, path)).then(()=> path)
+        })
+    }
+
+    get(path: string) {return this.files.get(path)}
+
+    url(path: string) {
+        const file = this.files.get(path)
+
+        if (!file) return null
+        if (!this.urls.has(path)) this.urls.set(path, URL.createObjectURL(file))
+        return this.urls.get(path)
+    }
+
+    remove(path: string) {
+        const url = this.urls.get(path)
+
+        if (url) URL.revokeObjectURL(url)
+        this.urls.delete(path)
+        this.files.delete(path)
+        return this.transaction('readwrite', (store)=> store.delete(path))
+    }
+
+    load() {
+        return this.loading = this.transaction('readonly', (store)=> {
+            const request = store.openCursor()
+
+            request.onsuccess = ()=> {
+                const cursor = request.result
+
+                if (cursor) {
+                    this.files.set(cursor.key as string, cursor.value)
+                    cursor.continue()
+                }
+            }
+        })
+    }
+
+    /** name, or name with a number before its extension if name is taken, like `image-2.png` */
+    uniquePath(name: string) {
+        const clean = name.replace(/[\[\]\n]/g, '_')
+        const [, base, ext] = clean.match(/^(.*?)(\.[^.]*)?$/)
+
+        let path = clean
+        for (let i = 2; this.files.has(path); i++) path = `${base}-${i}${ext ?? ''}`
+        return path
+    }
+
+    /** run func in an IndexedDB transaction, if there is a database */
+    transaction(mode: IDBTransactionMode, func: (store: IDBObjectStore)=> any): Promise<void> {
+        if (!this.dbName) return Promise.resolve()
+        return this.openDB().then((db)=> new Promise(function(accept, reject) {
+            const tx = db.transaction(storeName, mode)
+
+            tx.oncomplete = ()=> accept()
+            tx.onerror = ()=> reject(tx.error)
+            func(tx.objectStore(storeName))
+        }))
+    }
+
+    openDB() {
+        if (!this.db) {
+            this.db = new Promise((accept, reject)=> {
+                const request = indexedDB.open(this.dbName, 1)
+
+                request.onupgradeneeded = ()=> request.result.createObjectStore(storeName)
+                request.onsuccess = ()=> accept(request.result)
+                request.onerror = ()=> reject(request.error)
+            })
+        }
+        return this.db
+    }
+}
@@ -0,0 +1,243 @@
+import {preserveSelection} from './dist/editor.js'
+import type {BasicEditingOptionsNew, block} from './editor-ts.js'
+
+export type blockWindowOptions = {
+    /** the estimated height of a character in pixels, used until blocks have been measured */
+    pxPerChar?: number,
+    /** how many screens of blocks to render above and below the visible ones */
+    overscan?: number,
+    /** jump to a new window instead of extending this one past this many characters */
+    maxExtend?: number,
+}
+
+const spacerAttrs = `contenteditable='false' data-noncontent data-block-spacer`
+
+/**
+ * BlockWindow
+ * ===========
+ * Windowed rendering for very large documents (see `BasicEditingOptions.virtualize()`).
+ *
+ * Only a contiguous run of blocks near the viewport is in the DOM.  Spacer elements above
+ * and below the run stand in for the rest of the document.  Their heights come from the
+ * DataStore's block index: the number of characters before and after the run, times the
+ * average height of a character in the rendered blocks.
+ *
+ * The editor calls `options.renderRange(start, end)` before it needs DOM for document
+ * offsets (in `domCursorForDocOffset`, `selectDocRange`, `moveDown`, and `moveUp`).
+ * Nearby blocks are added to the edges of the run without disturbing the blocks already
+ * there, so DOMCursors held by the editor stay valid.  Distant offsets move the window.
+ *
+ * Scrolling to a new window drops the selection if it is no longer rendered.  Blocks must
+ * render as single elements, without nested block DOM.
+ */
+export class BlockWindow {
+    options: BasicEditingOptionsNew
+    /** the first rendered block id */
+    firstId: string = null
+    /** the last rendered block id */
+    lastId: string = null
+    pxPerChar = 0.25
+    overscan = 1
+    maxExtend = 20000
+    renderPending = false
+    listener = ()=> this.scheduleRender()
+
+    constructor(options: BasicEditingOptionsNew, opts: blockWindowOptions = {}) {
+        this.options = options
+        Object.assign(this, opts)
+        this.node.addEventListener('scroll', this.listener)
+        window.addEventListener('scroll', this.listener)
+        window.addEventListener('resize', this.listener)
+    }
+
+    get node(): HTMLElement {return this.options.editor.node[0]}
+
+    get data() {return this.options.data}
+
+    destroy() {
+        this.node.removeEventListener('scroll', this.listener)
+        window.removeEventListener('scroll', this.listener)
+        window.removeEventListener('resize', this.listener)
+    }
+
+    /** whether a block is in the rendered run */
+    isRendered(id: string) {
+        if (!this.firstId || !this.data.getBlock(id)) return false
+        const offset = this.data.offsetForBlock(id)
+
+        return this.data.offsetForBlock(this.firstId) <= offset && offset <= this.data.offsetForBlock(this.lastId)
+    }
+
+    /** the [start, end] document offsets that are visible, with overscan */
+    visibleRange() {
+        const rect = this.node.getBoundingClientRect()
+        const contentTop = rect.top - this.node.scrollTop
+        const top = Math.max(rect.top, 0) - contentTop
+        const bottom = Math.min(rect.bottom, window.innerHeight) - contentTop
+        const margin = (bottom - top) * this.overscan
+
+        return [Math.floor((top - margin) / this.pxPerChar), Math.ceil((bottom + margin) / this.pxPerChar)]
+    }
+
+    scheduleRender() {
+        if (!this.renderPending) {
+            this.renderPending = true
+            requestAnimationFrame(()=> {
+                this.renderPending = false
+                const [start, end] = this.visibleRange()
+
+                if (!this.covers(start, end)) this.render()
+            })
+        }
+    }
+
+    /** whether the rendered run covers start..end (clipped to the document) */
+    covers(start: number, end: number) {
+        if (!this.firstId || !this.data.getBlock(this.firstId) || !this.data.getBlock(this.lastId)) return false
+        const length = this.data.getLength()
+        const last = this.data.getBlock(this.lastId)
+
+        return this.data.offsetForBlock(this.firstId) <= Math.max(0, start)
+            && Math.min(end, length) <= this.data.offsetForBlock(last) + last.text.length
+    }
+
+    /** render the blocks around the viewport, or around start..end if they are given */
+    render(start?: number, end?: number) {
+        if (start == null) [start, end] = this.visibleRange()
+        const first = this.blockAt(start)
+
+        if (!first) {
+            this.firstId = this.lastId = null
+            return this.options.editor.setHtml(this.node, '')
+        }
+        const last = this.blockAt(end)
+
+        this.firstId = first._id
+        this.lastId = last._id
+        this.withSelection(()=> {
+            this.options.editor.setHtml(this.node, `${this.spacer('top')}${this.renderBlocks(first, last)}${this.spacer('bottom')}`)
+            this.measure()
+            this.updateSpacers()
+        })
+    }
+
+    /** make sure the blocks containing start..end and their neighbors are in the DOM */
+    renderRange(start: number, end = start) {
+        let first = this.blockAt(start)
+        let last = this.blockAt(end)
+
+        if (!first) return
+        first = this.data.getBlock(first.prev) ?? first
+        last = this.data.getBlock(last.next) ?? last
+        if (!this.firstId || !this.data.getBlock(this.firstId) || !this.data.getBlock(this.lastId)) {
+            return this.render(start, end)
+        }
+        const firstOffset = this.data.offsetForBlock(this.firstId)
+        const lastBlock = this.data.getBlock(this.lastId)
+        const lastEnd = this.data.offsetForBlock(lastBlock) + lastBlock.text.length
+
+        if (start < firstOffset - this.maxExtend || end > lastEnd + this.maxExtend) {
+            return this.render(this.data.offsetForBlock(first), this.data.offsetForBlock(last))
+        }
+        if (this.data.offsetForBlock(first) < firstOffset) {
+            this.insert(this.renderBlocks(first, this.data.getBlock(this.data.getBlock(this.firstId).prev)), 'top')
+            this.firstId = first._id
+        }
+        if (this.data.offsetForBlock(last) >= lastEnd) {
+            this.insert(this.renderBlocks(this.data.getBlock(lastBlock.next), last), 'bottom')
+            this.lastId = last._id
+        }
+        this.updateSpacers()
+    }
+
+    /** apply a change event to the rendered run */
+    changed({adds, updates, removes}) {
+        if (!this.data.getBlock(this.firstId) || !this.data.getBlock(this.lastId) || removes[this.firstId] || removes[this.lastId]) {
+            return this.render()
+        }
+        const html: {[id: string]: string} = {}
+        const placed: {[id: string]: boolean} = {}
+
+        for (const id in removes) this.options.nodeForId(id)?.[0]?.remove()
+        for (const id of Object.keys(adds).concat(Object.keys(updates))) {
+            if (this.isRendered(id)) html[id] = this.options.renderBlock(this.data.getBlock(id))[0]
+        }
+        for (const id in html) {
+            const node = this.options.nodeForId(id)?.[0]
+
+            if (id === this.firstId && node) {
+                placed[id] = true
+                this.options.editor.setHtml(node, html[id], true)
+            } else if (!this.options.placeBlock(this.data.getBlock(id), html, placed)) {
+                return this.render()
+            }
+        }
+        this.updateSpacers()
+    }
+
+    blockAt(offset: number): block {
+        const length = this.data.getLength()
+
+        if (!this.data.getFirst() || !this.data.getBlock(this.data.getFirst())) return null
+        return this.data.getBlock(this.data.blockOffsetForDocOffset(Math.max(0, Math.min(offset, length - 1))).block)
+    }
+
+    renderBlocks(first: block, last: block) {
+        let html = ''
+
+        for (let blk = first; blk; blk = this.data.getBlock(blk.next)) {
+            html += this.options.renderBlock(blk)[0]
+            if (blk === last) break
+        }
+        return html
+    }
+
+    spacer(side: 'top' | 'bottom') {return `<div ${spacerAttrs}='${side}'></div>`}
+
+    spacerNode(side: 'top' | 'bottom'): HTMLElement {
+        return this.node.querySelector(`:scope > [data-block-spacer='${side}']`)
+    }
+
+    /** insert rendered blocks inside the top or bottom spacer */
+    insert(html: string, side: 'top' | 'bottom') {
+        const placeholder = document.createElement('span')
+        const spacer = this.spacerNode(side)
+
+        if (side === 'top') spacer.after(placeholder)
+        else spacer.before(placeholder)
+        this.options.editor.setHtml(placeholder, html, true)
+    }
+
+    updateSpacers() {
+        const last = this.data.getBlock(this.lastId)
+        const top = this.data.offsetForBlock(this.firstId)
+        const bottom = this.data.getLength() - this.data.offsetForBlock(last) - last.text.length
+
+        this.spacerNode('top').style.height = `${Math.round(top * this.pxPerChar)}px`
+        this.spacerNode('bottom').style.height = `${Math.round(bottom * this.pxPerChar)}px`
+    }
+
+    /** update pxPerChar from the rendered blocks */
+    measure() {
+        const top = this.spacerNode('top').getBoundingClientRect().bottom
+        const bottom = this.spacerNode('bottom').getBoundingClientRect().top
+        const last = this.data.getBlock(this.lastId)
+        const chars = this.data.offsetForBlock(last) + last.text.length - this.data.offsetForBlock(this.firstId)
+
+        if (bottom > top && chars > 0) this.pxPerChar = (bottom - top) / chars
+    }
+
+    /** keep the selection if it is still rendered after func */
+    withSelection(func: ()=> void) {
+        const sel = getSelection()
+
+        if (sel.rangeCount && this.node.contains(sel.anchorNode)) {
+            preserveSelection((range)=> {
+                func()
+                if (range.type !== 'None' && !this.covers(range.start, range.start + range.length)) {
+                    range.type = 'None'
+                }
+            })
+        } else func()
+    }
+}
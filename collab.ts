@@ -0,0 +1,568 @@
+import {Observable} from './editor-ts.js'
+import type {DataStore, replacement} from './editor-ts.js'
+import {textDifference} from './undo.js'
+
+/**
+ * Collaborative editing
+ * =====================
+ * Operational transformation over DataStore replacements.
+ *
+ * Each site (a CollabClient on a DataStore) sends its replacements to a CollabServer,
+ * which orders all edits, transforms late edits against the ones it already accepted,
+ * and broadcasts the result.  Clients transform incoming edits against their own
+ * unacknowledged edits before applying them with `replaceText`, so every site converges
+ * on the same text.
+ *
+ * Messages are plain JSON objects, so any transport that can deliver them in order
+ * works (see CollabTransport).  LoopbackHub connects clients and a server in-process,
+ * which is handy for tests.
+ *
+ * Text operations
+ * ---------------
+ * Internally, edits are text operations: arrays of components that walk the document
+ * from the start.  A positive number retains that many characters, a negative number
+ * deletes that many characters, and a string inserts itself.  Anything past the last
+ * component is retained.
+ */
+
+export type textOp = (number | string)[]
+
+/**
+ * Messages
+ * --------
+ * * `join {site}`: a site wants the current document
+ * * `state {site, revision, text}`: the server's document, in response to join or to an
+ *   edit at a revision the server doesn't have (the site's unacknowledged edits are lost)
+ * * `edit {site, revision, edits}`: from a client, edits made at the client's revision;
+ *   from the server, edits accepted as the server's new revision
+ * * `cursor {site, revision, start, end, name}`: a site's selection at a revision
+ * * `leave {site}`: a site disconnected
+ */
+export type collabMessage =
+    {type: 'join', site: string}
+    | {type: 'state', site: string, revision: number, text: string}
+    | {type: 'edit', site: string, revision: number, edits: replacement[]}
+    | {type: 'cursor', site: string, revision: number, start: number, end: number, name?: string}
+    | {type: 'leave', site: string}
+
+export interface CollabTransport {
+    send(msg: collabMessage): void
+    onMessage(handler: (msg: collabMessage)=> void): void
+}
+
+function isRetain(c: number | string): c is number {return typeof c === 'number' && c > 0}
+
+function isDelete(c: number | string): c is number {return typeof c === 'number' && c < 0}
+
+function isInsert(c: number | string): c is string {return typeof c === 'string'}
+
+function opLength(c: number | string) {return typeof c === 'string' ? c.length : Math.abs(c)}
+
+function addRetain(op: textOp, n: number) {
+    if (n <= 0) return
+    if (isRetain(op[op.length - 1])) (op[op.length - 1] as number) += n
+    else op.push(n)
+}
+
+/** inserts always go before deletes at the same position so equal edits have equal ops */
+function addInsert(op: textOp, str: string) {
+    if (!str) return
+    const l = op.length
+
+    if (isInsert(op[l - 1])) op[l - 1] += str
+    else if (isDelete(op[l - 1])) {
+        if (isInsert(op[l - 2])) op[l - 2] += str
+        else op.splice(l - 1, 0, str)
+    } else op.push(str)
+}
+
+function addDelete(op: textOp, n: number) {
+    if (n <= 0) return
+    if (isDelete(op[op.length - 1])) (op[op.length - 1] as number) -= n
+    else op.push(-n)
+}
+
+function addComponent(op: textOp, c: number | string, n = opLength(c)) {
+    if (isInsert(c)) addInsert(op, c.substring(0, n))
+    else if (isDelete(c)) addDelete(op, n)
+    else addRetain(op, n)
+}
+
+function trimOp(op: textOp) {
+    while (isRetain(op[op.length - 1])) op.pop()
+    return op
+}
+
+/** iterate over an op's components, taking them in pieces */
+class OpReader {
+    op: textOp
+    index = 0
+    offset = 0
+
+    constructor(op: textOp) {this.op = op}
+
+    peek() {return this.op[this.index]}
+
+    /** the part of the current component that is left */
+    remaining() {return opLength(this.op[this.index]) - this.offset}
+
+    /** take up to n characters of the current component */
+    take(n = Infinity): number | string {
+        const c = this.op[this.index]
+        const len = Math.min(n, this.remaining())
+        const piece = isInsert(c) ? c.substring(this.offset, this.offset + len)
+            : isDelete(c) ? -len
+            : len
+
+        this.offset += len
+        if (this.offset >= opLength(c)) {
+            this.index++
+            this.offset = 0
+        }
+        return piece
+    }
+}
+
+/** the op for a list of replacements that are applied one after another */
+export function replacementsOp(repls: replacement[]): textOp {
+    let op: textOp = []
+
+    for (const {start, end, text} of repls) {
+        const next: textOp = []
+
+        addRetain(next, start)
+        addInsert(next, text)
+        addDelete(next, end - start)
+        op = composeOps(op, next)
+    }
+    return op
+}
+
+/** the replacements (applied one after another) for an op */
+export function opReplacements(op: textOp, source?: string): replacement[] {
+    const repls: replacement[] = []
+    let pos = 0
+    let cur: replacement = null
+
+    for (const c of op) {
+        if (isRetain(c)) {
+            pos += c
+            cur = null
+            continue
+        }
+        if (!cur) {
+            cur = {start: pos, end: pos, text: ''}
+            if (source) cur.source = source
+            repls.push(cur)
+        }
+        if (isInsert(c)) {
+            cur.text += c
+            pos += c.length
+        } else {
+            cur.end -= c
+        }
+    }
+    return repls
+}
+
+export function applyOp(text: string, op: textOp) {
+    let result = ''
+    let pos = 0
+
+    for (const c of op) {
+        if (isRetain(c)) {
+            result += text.substring(pos, pos + c)
+            pos += c
+        } else if (isDelete(c)) {
+            pos -= c
+        } else {
+            result += c
+        }
+    }
+    return result + text.substring(pos)
+}
+
+/** the op that has the same effect as a followed by b */
+export function composeOps(a: textOp, b: textOp): textOp {
+    const result: textOp = []
+    const ra = new OpReader(a)
+    const rb = new OpReader(b)
+
+    while (ra.peek() !== undefined || rb.peek() !== undefined) {
+        const ca = ra.peek()
+        const cb = rb.peek()
+
+        if (isDelete(ca)) addComponent(result, ra.take())
+        else if (isInsert(cb)) addComponent(result, rb.take())
+        else if (ca === undefined) addComponent(result, rb.take())
+        else if (cb === undefined) addComponent(result, ra.take())
+        else {
+            const n = Math.min(ra.remaining(), rb.remaining())
+            const pa = ra.take(n)
+            const pb = rb.take(n)
+
+            // a's insert survives a retain in b; a delete in b cancels it
+            if (isRetain(pb)) addComponent(result, pa)
+            else if (isRetain(pa)) addComponent(result, pb)
+        }
+    }
+    return trimOp(result)
+}
+
+/**
+ * transform two concurrent ops made on the same document into [a', b'] so that applying
+ * a then b' has the same result as b then a'.  When both insert at the same position,
+ * a's text goes first.
+ */
+export function transformOps(a: textOp, b: textOp): [textOp, textOp] {
+    const ap: textOp = []
+    const bp: textOp = []
+    const ra = new OpReader(a)
+    const rb = new OpReader(b)
+
+    while (ra.peek() !== undefined || rb.peek() !== undefined) {
+        const ca = ra.peek()
+        const cb = rb.peek()
+
+        if (isInsert(ca)) {
+            const ins = ra.take() as string
+
+            addInsert(ap, ins)
+            addRetain(bp, ins.length)
+        } else if (isInsert(cb)) {
+            const ins = rb.take() as string
+
+            addRetain(ap, ins.length)
+            addInsert(bp, ins)
+        } else if (ca === undefined) {
+            // the rest of a retains
+            addComponent(bp, rb.take())
+        } else if (cb === undefined) {
+            addComponent(ap, ra.take())
+        } else {
+            const n = Math.min(ra.remaining(), rb.remaining())
+            const pa = ra.take(n)
+            const pb = rb.take(n)
+
+            if (isRetain(pa) && isRetain(pb)) {
+                addRetain(ap, n)
+                addRetain(bp, n)
+            } else if (isDelete(pa) && isRetain(pb)) {
+                addDelete(ap, n)
+            } else if (isRetain(pa) && isDelete(pb)) {
+                addDelete(bp, n)
+            }
+            // both deleted the same text: nothing left to do
+        }
+    }
+    return [trimOp(ap), trimOp(bp)]
+}
+
+/**
+ * the position after op that corresponds to pos.  Positions in deleted text move to the
+ * deletion point and positions at an insertion move after it unless stickBefore is true
+ */
+export function transformPosition(pos: number, op: textOp, stickBefore = false) {
+    let oldPos = 0
+    let newPos = 0
+
+    for (const c of op) {
+        if (isRetain(c)) {
+            if (pos < oldPos + c) return newPos + pos - oldPos
+            oldPos += c
+            newPos += c
+        } else if (isInsert(c)) {
+            if (pos === oldPos && stickBefore) return newPos
+            newPos += c.length
+        } else {
+            if (pos < oldPos - c) return newPos
+            oldPos -= c
+        }
+    }
+    return newPos + pos - oldPos
+}
+
+/** transform replacement a, made concurrently with b, so it can be applied after b */
+export function transformReplacement(a: replacement, b: replacement, aFirst = false): replacement[] {
+    const opA = replacementsOp([a])
+    const opB = replacementsOp([b])
+
+    return opReplacements(aFirst ? transformOps(opA, opB)[0] : transformOps(opB, opA)[1], a.source)
+}
+
+/**
+ * CollabServer
+ * ============
+ * Orders edits from all sites.  An edit made at revision r is transformed against the
+ * edits the server accepted after r, becomes the next revision, and is broadcast to every
+ * site (including its sender, which treats it as an acknowledgement).  An edit at a
+ * revision the server doesn't have is rejected and its site gets the current document.
+ *
+ * * `revision`: the number of accepted edits
+ * * `sites {site->revision}`: the last revision each site edited at
+ */
+export class CollabServer {
+    transport: CollabTransport
+    text: string
+    revision = 0
+    history: textOp[] = []
+    sites: {[site: string]: number} = {}
+
+    constructor(transport: CollabTransport, text = '') {
+        this.transport = transport
+        this.text = text
+        transport.onMessage((msg)=> this.receive(msg))
+    }
+
+    receive(msg: collabMessage) {
+        switch (msg.type) {
+            case 'join':
+                return this.resync(msg.site)
+            case 'edit':
+                return this.edit(msg.site, msg.revision, msg.edits)
+            case 'cursor':
+                return this.cursor(msg.site, msg.revision, msg.start, msg.end, msg.name)
+            case 'leave':
+                delete this.sites[msg.site]
+                return this.transport.send(msg)
+        }
+    }
+
+    /** bring a cursor up to the current revision and broadcast it */
+    cursor(site: string, revision: number, start: number, end: number, name?: string) {
+        if (revision < 0 || revision > this.revision) return
+        for (const accepted of this.history.slice(revision)) {
+            start = transformPosition(start, accepted)
+            end = transformPosition(end, accepted)
+        }
+        this.transport.send({type: 'cursor', site, revision: this.revision, start, end, name})
+    }
+
+    edit(site: string, revision: number, edits: replacement[]) {
+        if (revision < 0 || revision > this.revision) return this.resync(site)
+        let op = replacementsOp(edits)
+
+        for (const accepted of this.history.slice(revision)) {
+            op = transformOps(op, accepted)[0]
+        }
+        this.history.push(op)
+        this.text = applyOp(this.text, op)
+        this.revision++
+        this.sites[site] = revision
+        this.transport.send({type: 'edit', site, revision: this.revision, edits: opReplacements(op)})
+    }
+
+    /** send a site that is out of step the current document, which replaces its own */
+    resync(site: string) {
+        this.sites[site] = this.revision
+        this.transport.send({type: 'state', site, revision: this.revision, text: this.text})
+    }
+}
+
+/**
+ * CollabClient
+ * ============
+ * Connects a DataStore to a CollabServer.  Local replacements are sent to the server one
+ * op at a time; edits made while waiting for an acknowledgement are buffered and sent
+ * together.  Remote edits are transformed against the pending local edits and applied
+ * with `replaceText` using source 'remote'.
+ *
+ * Changes that don't come from replaceText (like undo) are sent as the difference
+ * between the old and new document text.
+ *
+ * Cursors sent with `sendCursor(start, end)` are held until the server acknowledges the
+ * pending edits, so they are always relative to a server revision.
+ *
+ * Events
+ * ------
+ * * `state {site, revision}`: the document was loaded from the server (see `join()`)
+ * * `cursor {site, start, end, name}`: another site's selection, in this document's offsets
+ * * `leave {site}`: another site disconnected
+ */
+export class CollabClient extends Observable {
+    data: DataStore
+    transport: CollabTransport
+    site: string
+    name: string
+    revision = 0
+    /** sent to the server but not acknowledged */
+    outstanding: textOp = null
+    /** local edits made while waiting for outstanding to be acknowledged */
+    buffer: textOp = null
+    /** the document text as of the last change, for changes that have no replacement */
+    shadow: string
+    applyingRemote = false
+    /** a cursor waiting for the pending edits to be acknowledged */
+    pendingCursor: {start: number, end: number, name?: string} = null
+    changeListener: (change: any)=> void
+
+    constructor(data: DataStore, transport: CollabTransport, site: string) {
+        super()
+        this.data = data
+        this.transport = transport
+        this.site = site
+        this.shadow = data.getText()
+        this.changeListener = (change)=> this.localChange(change)
+        data.on('change', this.changeListener)
+        transport.onMessage((msg)=> this.receive(msg))
+    }
+
+    /** ask the server for the current document, which replaces this one when it arrives */
+    join(name = 'collab') {
+        this.name = name
+        this.transport.send({type: 'join', site: this.site})
+    }
+
+    disconnect() {
+        this.data.off('change', this.changeListener)
+        this.transport.send({type: 'leave', site: this.site})
+    }
+
+    /** share this site's selection; name labels the cursor for other sites */
+    sendCursor(start: number, end: number, name?: string) {
+        this.pendingCursor = {start, end, name}
+        this.sendPendingCursor()
+    }
+
+    sendPendingCursor() {
+        if (this.pendingCursor && !this.hasPendingEdits()) {
+            const {start, end, name} = this.pendingCursor
+
+            this.pendingCursor = null
+            this.transport.send({type: 'cursor', site: this.site, revision: this.revision, start, end, name})
+        }
+    }
+
+    hasPendingEdits() {return !!(this.outstanding || this.buffer)}
+
+    receive(msg: collabMessage) {
+        if (msg.type === 'state' && msg.site === this.site) {
+            this.revision = msg.revision
+            this.outstanding = this.buffer = null
+            this.shadow = msg.text
+            this.applyRemote(()=> this.data.load(this.name, msg.text))
+            this.trigger('state', {site: this.site, revision: this.revision})
+        } else if (msg.type === 'edit') {
+            if (msg.site === this.site) this.acknowledge(msg.revision)
+            else this.remoteEdit(msg.revision, msg.edits)
+        } else if (msg.type === 'cursor' && msg.site !== this.site) {
+            this.remoteCursor(msg.site, msg.start, msg.end, msg.name)
+        } else if (msg.type === 'leave' && msg.site !== this.site) {
+            this.trigger('leave', {site: msg.site})
+        }
+    }
+
+    /** move a cursor at the server's revision past the pending local edits */
+    remoteCursor(site: string, start: number, end: number, name?: string) {
+        for (const op of [this.outstanding, this.buffer]) {
+            if (op) {
+                start = transformPosition(start, op)
+                end = transformPosition(end, op)
+            }
+        }
+        this.trigger('cursor', {site, start, end, name})
+    }
+
+    localChange(change) {
+        if (this.applyingRemote) return
+        const text = change.replacement ? null : this.data.getText()
+        const repls = change.replacement ? [change.replacement] : [textDifference(this.shadow, text)]
+        const op = replacementsOp(repls)
+
+        this.shadow = text ?? applyOp(this.shadow, op)
+        if (!op.length) return
+        if (this.outstanding) {
+            this.buffer = this.buffer ? composeOps(this.buffer, op) : op
+        } else {
+            this.outstanding = op
+            this.sendOutstanding()
+        }
+    }
+
+    sendOutstanding() {
+        this.transport.send({type: 'edit', site: this.site, revision: this.revision, edits: opReplacements(this.outstanding)})
+    }
+
+    acknowledge(revision: number) {
+        this.revision = revision
+        this.outstanding = this.buffer
+        this.buffer = null
+        if (this.outstanding) this.sendOutstanding()
+        else this.sendPendingCursor()
+    }
+
+    remoteEdit(revision: number, edits: replacement[]) {
+        let op = replacementsOp(edits)
+
+        this.revision = revision
+        if (this.outstanding) [this.outstanding, op] = transformOps(this.outstanding, op)
+        if (this.buffer) [this.buffer, op] = transformOps(this.buffer, op)
+        this.shadow = applyOp(this.shadow, op)
+        if (this.pendingCursor) {
+            this.pendingCursor.start = transformPosition(this.pendingCursor.start, op)
+            this.pendingCursor.end = transformPosition(this.pendingCursor.end, op)
+        }
+        this.applyRemote(()=> {
+            for (const repl of opReplacements(op, 'remote')) this.data.replaceText(repl)
+        })
+    }
+
+    applyRemote(func: ()=> void) {
+        const old = this.applyingRemote
+
+        this.applyingRemote = true
+        try {
+            func()
+        } finally {
+            this.applyingRemote = old
+        }
+    }
+}
+
+/**
+ * LoopbackHub
+ * ===========
+ * An in-process transport for tests.  Messages from clients go to the server and
+ * messages from the server go to every client.  Nothing is delivered until `flush()`
+ * (or `deliverNext()`), so tests can make concurrent edits before any of them arrive.
+ */
+export class LoopbackHub {
+    queue: {to: 'server' | 'clients', msg: collabMessage}[] = []
+    serverHandlers: ((msg: collabMessage)=> void)[] = []
+    clientHandlers: ((msg: collabMessage)=> void)[] = []
+
+    serverTransport(): CollabTransport {
+        return {
+            send: (msg)=> this.enqueue('clients', msg),
+            onMessage: (handler)=> this.serverHandlers.push(handler),
+        }
+    }
+
+    clientTransport(): CollabTransport {
+        return {
+            send: (msg)=> this.enqueue('server', msg),
+            onMessage: (handler)=> this.clientHandlers.push(handler),
+        }
+    }
+
+    enqueue(to: 'server' | 'clients', msg: collabMessage) {
+        // copy, like a real transport would
+        this.queue.push({to, msg: JSON.parse(JSON.stringify(msg))})
+    }
+
+    /** deliver the oldest queued message; returns false if there was none */
+    deliverNext() {
+        const item = this.queue.shift()
+
+        if (!item) return false
+        for (const handler of item.to === 'server' ? this.serverHandlers : this.clientHandlers) {
+            handler(item.msg)
+        }
+        return true
+    }
+
+    /** deliver messages until the queue is empty */
+    flush() {
+        while (this.deliverNext()) {}
+    }
+}
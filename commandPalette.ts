@@ -0,0 +1,255 @@
+import type {Editor} from './dist/editor.js'
+import {Observable} from './editor-ts.js'
+import {commandName, commandNames} from './keymap.js'
+import type {Keymap} from './keymap.js'
+
+export type paletteItem = {
+    name: string,
+    label: string,
+    /** the key specs that run the command in the editor, shortest first */
+    keys: string[],
+    /** the indexes of the label's characters that matched the filter */
+    matches: number[],
+    score: number,
+}
+
+/**
+ * CommandPalette
+ * ==============
+ * A searchable list of every registered command (see keymap.ts) with its key bindings.
+ *
+ * `open()` saves the editor's selection and shows the palette, a text field and a list,
+ * over the top of the editor.  Typing filters the commands by fuzzy matching: the
+ * characters of the filter must appear in order in a command's label, and matches at the
+ * starts of words and runs of matching characters rank higher.  UP and DOWN choose a
+ * command, ENTER or a click runs it on the saved selection, and ESC or leaving the
+ * palette closes it.
+ *
+ * The palette sets the editor's `commandPalette` property, which the
+ * `openCommandPalette` command (bound to `S-C-P` in defaultBindings) uses.  Commands that
+ * should not be listed, like the palette's own, can go in `hidden`.
+ *
+ * Events
+ * ------
+ * `open`, `close`: the palette opened or closed
+ * `run {name}`: the palette ran a command
+ *
+ * Methods
+ * -------
+ * * `open()`: show the palette
+ * * `close()`: hide it and put the saved selection back
+ * * `items(filter) -> [{name, label, keys, matches, score}]`: the commands that match filter, best first
+ * * `run(name)`: close the palette and run a command on the saved selection
+ * * `destroy()`: remove the palette and listeners
+ */
+export class CommandPalette extends Observable {
+    editor: Editor
+    node: HTMLElement
+    input: HTMLInputElement
+    list: HTMLElement
+    shown: paletteItem[] = []
+    current = 0
+    selection: any = null
+    hidden = new Set(['openCommandPalette'])
+    subscriptions: [any, string, (...args: any[])=> any][] = []
+
+    constructor(editor: Editor) {
+        super()
+        this.editor = editor
+        editor.commandPalette = this
+        this.node = document.createElement('div')
+        this.node.className = 'command-palette'
+        this.node.setAttribute('contenteditable', 'false')
+        this.node.style.display = 'none'
+        this.input = document.createElement('input')
+        this.input.setAttribute('placeholder', 'Command')
+        this.list = document.createElement('div')
+        this.list.className = 'command-palette-items'
+        this.node.append(this.input, this.list)
+        this.editorNode.after(this.node)
+        this.listen(this.input, 'input', ()=> this.update())
+        this.listen(this.input, 'keydown', (e: KeyboardEvent)=> this.keyDown(e))
+        this.listen(this.input, 'blur', ()=> this.isOpen() && this.close())
+        // keep the focus in the input while clicking an item
+        this.listen(this.list, 'mousedown', (e: MouseEvent)=> {
+            const item = (e.target as HTMLElement).closest('[data-command]')
+
+            e.preventDefault()
+            if (item) this.run(item.getAttribute('data-command'))
+        })
+    }
+
+    get editorNode(): HTMLElement {return this.editor.node[0]}
+
+    listen(target: any, type: string, func: (...args: any[])=> any) {
+        target.addEventListener(type, func)
+        this.subscriptions.push([target, type, func])
+    }
+
+    isOpen() {return this.node.style.display !== 'none'}
+
+    open() {
+        const rect = this.editorNode.getBoundingClientRect()
+
+        this.selection = this.editor.getSelectedDocRange()
+        Object.assign(this.node.style, {
+            display: '',
+            position: 'fixed',
+            top: `${Math.max(rect.top, 0) + 8}px`,
+            left: `${rect.left + rect.width / 2}px`,
+            transform: 'translateX(-50%)',
+            zIndex: '10',
+        })
+        this.input.value = ''
+        this.update()
+        this.input.focus()
+        this.trigger('open')
+    }
+
+    close() {
+        this.node.style.display = 'none'
+        this.list.innerHTML = ''
+        this.editorNode.focus()
+        if (this.selection?.type !== 'None') this.editor.selectDocRange(this.selection)
+        this.trigger('close')
+    }
+
+    run(name: string) {
+        this.close()
+        const sel = getSelection()
+
+        this.editor.runCommand(name, {range: sel.rangeCount > 0 ? sel.getRangeAt(0) : null})
+        this.trigger('run', {name})
+    }
+
+    keyDown(e: KeyboardEvent) {
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            e.preventDefault()
+            if (this.shown.length) {
+                this.current = (this.current + (e.key === 'ArrowDown' ? 1 : -1) + this.shown.length) % this.shown.length
+                this.render()
+            }
+        } else if (e.key === 'Enter') {
+            e.preventDefault()
+            if (this.shown[this.current]) this.run(this.shown[this.current].name)
+        } else if (e.key === 'Escape') {
+            e.preventDefault()
+            this.close()
+        }
+    }
+
+    update() {
+        this.shown = this.items(this.input.value)
+        this.current = 0
+        this.render()
+    }
+
+    items(filter: string) {
+        const keys = this.commandKeys()
+        const items: paletteItem[] = []
+
+        for (const name of commandNames()) {
+            if (this.hidden.has(name)) continue
+            const label = commandLabel(name)
+            const match = fuzzyMatch(filter, label)
+
+            if (match) items.push({name, label, keys: keys.get(name) ?? [], ...match})
+        }
+        return items.sort((a, b)=> b.score - a.score || a.label.length - b.label.length || a.label.localeCompare(b.label))
+    }
+
+    /** the key specs that run each command, leaving out ones an earlier layer takes over */
+    commandKeys() {
+        const layers: Keymap[] = this.editor.keymapLayers()
+        const keys = new Map<string, string[]>()
+
+        for (const keymap of layers) {
+            for (const spec of keymap.specs()) {
+                const name = commandName(this.editor.lookupBinding(spec, layers))
+
+                if (name) {
+                    if (!keys.has(name)) keys.set(name, [])
+                    if (!keys.get(name).includes(spec)) keys.get(name).push(spec)
+                }
+            }
+        }
+        for (const specs of keys.values()) specs.sort((a, b)=> a.length - b.length)
+        return keys
+    }
+
+    render() {
+        this.list.innerHTML = ''
+        this.shown.forEach((item, i)=> {
+            const div = document.createElement('div')
+            const label = document.createElement('span')
+            const keys = document.createElement('span')
+            let pos = 0
+
+            div.className = 'command-palette-item'
+            div.setAttribute('data-command', item.name)
+            if (i === this.current) div.setAttribute('data-current', '')
+            label.className = 'command-palette-label'
+            for (const index of item.matches) {
+                const b = document.createElement('b')
+
+                label.append(item.label.slice(pos, index))
+                b.textContent = item.label[index]
+                label.append(b)
+                pos = index + 1
+            }
+            label.append(item.label.slice(pos))
+            keys.className = 'command-palette-keys'
+            keys.textContent = item.keys.join(', ')
+            div.append(label, keys)
+            this.list.append(div)
+        })
+        this.list.children[this.current]?.scrollIntoView({block: 'nearest'})
+    }
+
+    destroy() {
+        for (const [target, type, func] of this.subscriptions) target.removeEventListener(type, func)
+        this.subscriptions = []
+        this.node.remove()
+        if (this.editor.commandPalette === this) this.editor.commandPalette = null
+    }
+}
+
+/** a command's name as words, like 'Forward word' for forwardWord */
+export function commandLabel(name: string) {
+    const words = name.replace(/([a-z0-9])([A-Z])/g, '$1 $2').replace(/[-_]+/g, ' ').toLowerCase()
+
+    return words[0].toUpperCase() + words.slice(1)
+}
+
+/**
+ * the indexes of the characters in text that match pattern's characters in order, ignoring
+ * case and spaces, and a score that is higher for matches at word starts and in runs.
+ * Each character continues the current run if it can, or else matches at the next word
+ * start if it can.  Returns null if text does not match
+ */
+export function fuzzyMatch(pattern: string, text: string) {
+    const chars = pattern.toLowerCase().replace(/\s+/g, '')
+    const lower = text.toLowerCase()
+    const matches: number[] = []
+    let score = 0
+    let pos = 0
+
+    for (const c of chars) {
+        const wordStart = Array.from(lower.slice(pos)).findIndex((d, i)=> d === c && isWordStart(text, pos + i))
+        const index = lower[pos] === c && matches.length ? pos
+            : wordStart > -1 ? pos + wordStart
+            : lower.indexOf(c, pos)
+
+        if (index === -1) return null
+        score += 1
+        if (isWordStart(text, index)) score += 5
+        if (matches.length && index === matches[matches.length - 1] + 1) score += 3
+        matches.push(index)
+        pos = index + 1
+    }
+    return {matches, score}
+}
+
+function isWordStart(text: string, index: number) {
+    return index === 0 || /[^a-z0-9]/i.test(text[index - 1]) || /[a-z][A-Z]/.test(text.slice(index - 1, index + 1))
+}
@@ -98,6 +98,10 @@ export type node = HTMLElement & {
 
 type filter = (n: DOMCursor)=> any
 
+// finds a boundary in the text gathered after (or before) a cursor, returning its offset in the
+// text or -1 if it needs more text to be sure; done is true when there is no more text
+type boundaryFinder = (text: string, done: boolean)=> number
+
 export declare class CaretPosition {
     offset: number
     offsetNode: Node
@@ -120,6 +124,8 @@ export class DOMCursor {
     savedTextPosition: DOMRect
 
     static debug = false
+    // the locale for word and sentence boundaries; undefined uses the browser's locale
+    static locale: string = undefined
     static MutableDOMCursor: typeof MutableDOMCursor
     static emptyDOMCursor: EmptyDOMCursor
 
@@ -177,6 +183,13 @@ export class DOMCursor {
         return r
     }
 
+    // **direction** returns the layout direction of a node, 'ltr' or 'rtl'
+    static direction(node: node) {
+        const element = node.nodeType === node.TEXT_NODE ? node.parentElement : node
+
+        return element ? getComputedStyle(element).direction : 'ltr'
+    }
+
     static selectRange(r?: Range) {
         if (!r) return
         const sel = getSelection();
@@ -265,6 +278,27 @@ export class DOMCursor {
         }
     }
 
+    // **column** returns the caret's screen column: the left edge of the next character, or its
+    // right edge if it is right-to-left
+    column() {
+        const pos = this.textPosition()
+        const dir = this.type === 'text' && charDirection(this.node.data[this.pos])
+
+        return (dir ? dir === 'rtl' : this.isRTL()) ? pos.right : pos.left
+    }
+
+    // **isRTL** returns whether the text around the cursor runs right to left.  Neutral characters
+    // (spaces, punctuation, digits) take the direction of the strong character on the other side and
+    // the paragraph's direction decides between neighbors that disagree
+    isRTL() {
+        if (this.type !== 'text') return false
+        const before = charDirection(this.node.data[this.pos - 1])
+        const after = charDirection(this.node.data[this.pos])
+
+        if ((before || after) && (!before || !after || before === after)) return (before || after) === 'rtl'
+        return DOMCursor.direction(this.node) === 'rtl'
+    }
+
     isDomCaretTextPosition() {
         const p = this.textPosition();
         const {node, offset} = DOMCursor.caretPos(p.left, p.top)
@@ -637,7 +671,8 @@ export class DOMCursor {
                 tp = pos;
                 line++;
             }
-            if (line === 1 && goalFunc(pos.left + 2) > -1) return 'found'
+            // columns decrease as right-to-left text goes forward
+            if (line === 1 && (n.isRTL() ? goalFunc(n.column() - 2) < 1 : goalFunc(n.column() + 2) > -1)) return 'found'
             return line !== 2;
         });
     }
@@ -690,7 +725,8 @@ export class DOMCursor {
                 tp = pos
                 line++
             }
-            if (line === 1 && ((goal = goalFunc(n.textPosition().left - 2)) === (-1) || goal === 0)) {
+            if (line === 1 && (n.isRTL() ? goalFunc(n.column() + 2) > -1
+                : (goal = goalFunc(n.column() - 2)) === (-1) || goal === 0)) {
                 return 'found'
             }
             return line !== 2;
@@ -703,10 +739,11 @@ export class DOMCursor {
         return this.backwardWhile(n=> !DOMCursor.differentPosition(p, n.textPosition()))
     }
 
+    // **forwardChar** moves past the next grapheme cluster (a user-perceived character)
     forwardChar() {
         let n: DOMCursor = this;
 
-        if (this.pos + 1 <= this.node.length) return this.newPos(this.node, this.pos + 1)
+        if (this.pos + 1 <= this.node.length) return this.newPos(this.node, nextGrapheme(this.node.data, this.pos))
         while (!(n = n.next()).isEmpty()) {
             if (n.node.length !== 0) break
         }
@@ -719,13 +756,14 @@ export class DOMCursor {
         return n.isEmpty() ? n.prev() : n
     }
 
+    // **backwardChar** moves before the previous grapheme cluster
     backwardChar() {
         const oldNode = this.node;
         let p: DOMCursor = this;
 
         while (!p.isEmpty() && p.pos === 0) p = p.prev()
         return p.isEmpty() ? p
-            : p.newPos(p.node, p.node !== oldNode ? p.pos : p.pos - 1)
+            : p.newPos(p.node, p.node !== oldNode ? p.pos : previousGrapheme(p.node.data, p.pos))
     }
 
     boundedBackwardChar() {
@@ -734,6 +772,71 @@ export class DOMCursor {
         return n.isEmpty() ? n.next() : n
     }
 
+    // **forwardWord** moves to the end of the next word, using Intl.Segmenter to find the words
+    forwardWord() {return this.moveToBoundary(false, wordEnd)}
+
+    // **backwardWord** moves to the start of the previous word
+    backwardWord() {return this.moveToBoundary(true, wordStart)}
+
+    // **forwardSentence** moves to the end of the sentence, before its trailing whitespace
+    forwardSentence() {return this.moveToBoundary(false, sentenceEnd)}
+
+    // **backwardSentence** moves to the start of the sentence, or the previous one if the cursor is already at the start
+    backwardSentence() {return this.moveToBoundary(true, sentenceStart)}
+
+    // **forwardParagraph** moves to the blank line after the paragraph
+    forwardParagraph() {return this.moveToBoundary(false, paragraphEnd)}
+
+    // **backwardParagraph** moves to the blank line before the paragraph
+    backwardParagraph() {return this.moveToBoundary(true, paragraphStart)}
+
+    // **moveToBoundary** gathers text from the filtered text nodes after (or before) the cursor
+    // until find is sure of a boundary and moves to it.  Find must return a boundary when there
+    // is no more text.  It only tries again once the text has doubled, so the text it segments
+    // stays linear in the text it gathers.
+    moveToBoundary(backwards: boolean, find: boundaryFinder): DOMCursor {
+        const chunks: {node: node, start: number}[] = []
+        let n: DOMCursor = this.immutable()
+        let text = ''
+        let tried = 0
+        let offset = -1
+
+        if (this.isEmpty()) return this
+        for (let first = true; offset < 0; first = false) {
+            if (n.isEmpty()) {
+                offset = find(text, true)
+                break
+            }
+            if (n.type === 'text') {
+                const data = n.node.data
+
+                // chunk starts are the text offsets of the nodes' starts (from the end when backwards)
+                if (backwards) {
+                    text = data.substring(0, first ? this.pos : data.length) + text
+                    chunks.push({node: n.node, start: -text.length})
+                } else {
+                    const from = first ? this.pos : 0
+
+                    chunks.push({node: n.node, start: text.length - from})
+                    text += data.substring(from)
+                }
+                if (text.length > 2 * tried) {
+                    tried = text.length
+                    offset = find(text, false)
+                }
+            }
+            n = backwards ? n.prev() : n.next()
+        }
+        const base = backwards ? text.length : 0
+
+        for (const {node, start} of chunks) {
+            const pos = offset - base - start
+
+            if (0 <= pos && pos <= node.length) return this.newPos(node, pos)
+        }
+        return this
+    }
+
     // **show** scroll the position into view.  Optionally takes a rectangle representing a toolbar at the top of the page (sorry, this is a bit limited at the moment)
     show(topRect: DOMRect) {
         const p = this.textPosition()
@@ -934,6 +1037,101 @@ class MutableDOMCursor extends DOMCursor {
 
 function debug(...args: any[]) {DOMCursor.debug && console.log(...args)}
 
+// Text boundaries, for moveToBoundary and character movement
+
+const segmenters = new Map<string, Intl.Segmenter>()
+
+// one segmenter per locale and granularity, since creating them is slow
+function segmenter(granularity: 'grapheme' | 'word' | 'sentence') {
+    const key = `${DOMCursor.locale ?? ''} ${granularity}`
+
+    if (!segmenters.has(key)) segmenters.set(key, new Intl.Segmenter(DOMCursor.locale, {granularity}))
+    return segmenters.get(key)
+}
+
+function segments(text: string, granularity: 'word' | 'sentence') {
+    return Array.from(segmenter(granularity).segment(text))
+}
+
+/** the end of the grapheme cluster containing pos, so surrogate pairs, ZWJ sequences, and combining marks are never split */
+export function nextGrapheme(text: string, pos: number) {
+    const cluster = pos < text.length && segmenter('grapheme').segment(text).containing(pos)
+
+    return cluster ? cluster.index + cluster.segment.length : text.length
+}
+
+/** the start of the grapheme cluster before pos */
+export function previousGrapheme(text: string, pos: number) {
+    const cluster = pos > 0 && segmenter('grapheme').segment(text).containing(pos - 1)
+
+    return cluster ? cluster.index : 0
+}
+
+function wordEnd(text: string, done: boolean) {
+    const word = segments(text, 'word').find((s)=> s.isWordLike)
+    const end = word ? word.index + word.segment.length : -1
+
+    if (word) return end < text.length || done ? end : -1
+    return done ? text.length : -1
+}
+
+function wordStart(text: string, done: boolean) {
+    const word = segments(text, 'word').reverse().find((s)=> s.isWordLike)
+
+    if (word) return word.index > 0 || done ? word.index : -1
+    return done ? 0 : -1
+}
+
+function sentenceEnd(text: string, done: boolean) {
+    const sentence = segments(text, 'sentence').find((s)=> s.segment.trim())
+    const end = sentence ? sentence.index + sentence.segment.trimEnd().length : -1
+
+    if (sentence) return sentence.index + sentence.segment.length < text.length || done ? end : -1
+    return done ? text.length : -1
+}
+
+function sentenceStart(text: string, done: boolean) {
+    const sentence = segments(text, 'sentence').reverse().find((s)=> s.segment.trim())
+
+    if (sentence) return sentence.index > 0 || done ? sentence.index : -1
+    return done ? 0 : -1
+}
+
+// newlines that end the line before a blank line
+const blankLine = /\n(?=[ \t]*\n)/g
+
+function paragraphEnd(text: string, done: boolean) {
+    const start = text.search(/\S/)
+
+    if (start >= 0) {
+        for (const match of text.matchAll(blankLine)) {
+            if (match.index > start) return match.index + 1
+        }
+    }
+    return done ? text.length : -1
+}
+
+function paragraphStart(text: string, done: boolean) {
+    const end = text.search(/\S\s*$/)
+    let start = -1
+
+    if (end >= 0) {
+        for (const match of text.substring(0, end).matchAll(blankLine)) start = match.index + 1
+        if (start >= 0) return start
+    }
+    return done ? 0 : -1
+}
+
+// Text direction
+
+const rtlChar = /[\p{Script=Hebrew}\p{Script=Arabic}\p{Script=Syriac}\p{Script=Thaana}\p{Script=Nko}\p{Script=Samaritan}\p{Script=Mandaic}\p{Script=Adlam}]/u
+const letter = /\p{L}/u
+
+/** the strong direction of a character, 'ltr' for letters, 'rtl' for right-to-left letters, or null for neutral characters */
+function charDirection(ch: string) {
+    return !ch ? null : rtlChar.test(ch) ? 'rtl' : letter.test(ch) ? 'ltr' : null
+}
+
 function reject(filterResult: any) {
   return !filterResult || (filterResult === 'quit' || filterResult === 'skip');
 };
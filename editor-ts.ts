@@ -1,17 +1,62 @@
-import {DOMCursor, node} from './domCursor.js'
+import {DOMCursor, node, nextGrapheme, previousGrapheme} from './domCursor.js'
 import type {CaretPosition} from './domCursor.js'
-import {useEvent, Editor, defaultBindings, last, preserveSelection} from './dist/editor.js'
+import {useEvent, Editor, defaultBindings, last, preserveSelection, currentSelection} from './dist/editor.js'
 import {FingerTree} from './dist/fingertree.js'
 import {Set} from 'immutable'
+import {UndoManager, textDifference} from './undo.js'
+import type {UndoAdapter} from './undo.js'
+import {DocumentSnapshot, SnapshotHistory} from './snapshot.js'
+import type {snapshotJSON} from './snapshot.js'
+import {BlockWindow} from './blockWindow.js'
+import {AttachmentStore} from './attachments.js'
+import type {Keymap, bindings} from './keymap.js'
+import type {blockWindowOptions} from './blockWindow.js'
 
 declare const _: any
 
 type callback = (...args: any[])=> any
-type block = object & {_id: string, next: string, prev?: string, text?: string}
-type replacement = {start: number, end: number, text: string, source?: string}
+export type block = object & {_id: string, next: string, prev?: string, text?: string}
+export type replacement = {start: number, end: number, text: string, source?: string}
+/** copied blocks with their text clipped to the copied range; whole is false for clipped blocks */
+export type blockClip = {blocks: {block: object & {text: string}, whole: boolean}[]}
 type blockOffset = {offset: number, block: string}
 type dataMeasure = {length: number, ids: Set<string>}
-type blockValue = {id: string, length: number}
+type blockValue = {id: string, length: number, block: block}
+export type markGravity = 'left' | 'right'
+export type markOptions = {gravity?: markGravity, deleteWhenRemoved?: boolean}
+export type rangeMarkOptions = {inclusive?: boolean, deleteWhenRemoved?: boolean}
+type markLocation = {name: string, start: number, end: number, range: boolean}
+/** a protected range mark or block predicate, see `DataStore.protect()` */
+type protection = {name: string, clip: boolean, blocks?: (block: block)=> boolean}
+export type protectionOptions = {clip?: boolean}
+export type protectedRange = {name: string, start: number, end: number, clip: boolean}
+/** what an input rule's handler sees, see LeisureEditCore.applyInputRules() */
+export type inputRuleContext = {
+    editor: Editor,
+    /** the block where the typing happened */
+    block: block,
+    /** the line's text before the caret, including the typed text */
+    before: string,
+    /** the line's text after the caret */
+    after: string,
+    replacement: replacement,
+}
+/**
+ * a rule that rewrites typed text.  When `match` matches the text before the caret,
+ * the handler returns the text to replace the match with or null to skip the rule.  It can
+ * return `{text, caret, consume}` to put the caret at an offset in text or to replace
+ * `consume` characters after the caret too
+ */
+export type inputRule = {
+    match: RegExp,
+    handler: (match: RegExpMatchArray, context: inputRuleContext)=> string | {text: string, caret?: number, consume?: number},
+}
+/** true or nothing approves a replacement, false cancels it, and replacements rewrite it */
+export type beforeChangeResult = boolean | void | replacement | replacement[]
+export type beforeChangeHook = (repl: replacement, oldBlocks: block[])=> beforeChangeResult
+export type searchOptions = {ignoreCase?: boolean, wholeWord?: boolean}
+/** a match from `DataStore.search()`, start and end are document offsets */
+export type searchMatch = {start: number, end: number, text: string, groups: string[], named?: {[name: string]: string}}
 
 /** id number for next created block */
 let idCounter = 0
@@ -109,6 +154,8 @@ export class Observable {
  * * `blocks {id -> block}`: block table
  * * `first`: id of first block
  * * `bindings {keys -> binding(editor, event, selectionRange)}`: a map of bindings (can use LeisureEditCore.defaultBindings)
+ * * `blockBindings {type -> bindings}`: bindings for the block under the caret, by block type (see Keymap)
+ * * `inputRules [{match, handler}]`: rules that rewrite typed text (see LeisureEditCore.applyInputRules)
  * 
  * Methods of BasicEditingOptions
  * ------------------------------
@@ -116,10 +163,14 @@ export class Observable {
  * * `getContainer(node) -> Node?`: get block DOM node containing for a node
  * * `getFirst() -> blockId`: get the first block id
  * * `domCursor(node, pos) -> DOMCursor`: return a domCursor that skips over non-content
+ * * `graphemeBoundary(offset, forward) -> offset`: step over a user-perceived character from a document offset
  * * `keyUp(editor) -> void`: handle keyup after-actions
  * * `topRect() -> rect?`: returns null or the rectangle of a toolbar at the page top
- * * `blockColumn(pos) -> colNum`: returns the start column on the page for the current block
+ * * `blockColumn(pos) -> colNum`: returns the caret's column on the page, taking right-to-left text into account
  * * `load(el, text) -> void`: parse text into blocks and replace el's contents with rendered DOM
+ * * `virtualize(opts) -> BlockWindow`: only render blocks near the viewport (see BlockWindow)
+ * * `undo() -> selection`: undo the last change and return the selection from before it
+ * * `redo() -> selection`: redo the last undone change
  */
 
 export class BasicEditingOptionsNew extends Observable {
@@ -128,8 +179,16 @@ export class BasicEditingOptionsNew extends Observable {
     first: string
     editor: Editor
     data: DataStore
-    /** a map of bindings (can use LeisureEditCore.defaultBindings) */
-    bindings = defaultBindings
+    /** renders only the blocks near the viewport, see `virtualize()` */
+    blockWindow: BlockWindow = null
+    /** a map of bindings (can use LeisureEditCore.defaultBindings) or a Keymap */
+    bindings: Keymap | bindings = defaultBindings
+    /** bindings for blocks of a type, keyed by type, which come before `bindings` when the caret is in one */
+    blockBindings: {[type: string]: Keymap | bindings} = {}
+    /** rules that rewrite typed text, like docOrg's `orgInputRules` */
+    inputRules: inputRule[] = []
+    /** where `insertFiles()` stores dropped and pasted files */
+    attachments = new AttachmentStore()
 
     /** return [HTML, nextId], the rendered HTML and the id of the next block to render */
     renderBlock(_block: object): [string, string] {
@@ -144,6 +203,31 @@ export class BasicEditingOptionsNew extends Observable {
     /** The editor calls this when the user hits backspace or delete on selected text. */
     simulateCut(_data: {html: string, text: string}) {}
 
+    /**
+     * convert HTML pasted or dropped from outside the editor into source text for the
+     * document's format, like docOrg's `htmlToOrg()`.  Return null to paste the plain text.
+     */
+    convertPastedHTML(_html: string, _text: string): string {return null}
+
+    /**
+     * store files dropped or pasted at a document offset and return a promise for the
+     * text to insert there, or null to ignore them.  This stores each file in
+     * `attachments` and inserts the `fileText()` for each one on its own line.
+     */
+    insertFiles(files: File[], _offset: number): Promise<string> {
+        return Promise.all(files.map((file)=> this.attachments.put(file).then((path)=> this.fileText(path, file))))
+            .then((texts)=> {
+                texts = texts.filter((text)=> text != null)
+                return texts.length ? texts.join('\n') : null
+            })
+    }
+
+    /**
+     * the text that refers to a stored file in the document's format, like an org
+     * `[[file:path]]` link.  Return null (the default) to leave the file out.
+     */
+    fileText(_path: string, _file: File): string {return null}
+
     /**
      * alter the drag-enter behavior.  If you want to cancel the drag, for
      * instance, call event.preventDefault() and set the dropEffect to 'none'
@@ -199,7 +283,10 @@ export class BasicEditingOptionsNew extends Observable {
 
     idForNode(node: HTMLElement) {return $(node).prop('id')}
 
-    setEditor(editor) {this.editor = editor}
+    setEditor(editor) {
+        this.editor = editor
+        if (this.data?.undoManager) this.data.undoManager.getSelection = currentSelection
+    }
 
     newId() {return this.data.newId()}
 
@@ -220,8 +307,8 @@ export class BasicEditingOptionsNew extends Observable {
     /** parse text into array of blocks -- DO NOT provide _id, prev, or next, they may be overwritten! */
     parseBlocks(text: string): block[] {throw new Error("options.parseBlocks(text) is not implemented")}
 
-    /** return the start column on the page for the current block */
-    blockColumn(pos) {return pos.textPosition().left}
+    /** return the caret's column on the page, which is the right edge of right-to-left characters */
+    blockColumn(pos) {return pos.column()}
 
     /** return null or the rectangle of a toolbar at the page top */
     topRect() {return null}
@@ -241,21 +328,86 @@ export class BasicEditingOptionsNew extends Observable {
         }
     }
 
-    replaceText(repl: replacement) {this.data.replaceText(repl)}
+    replaceText(repl: replacement | replacement[]) {this.data.replaceText(repl)}
+
+    /** the blocks in start..end for the clipboard, see `DataStore.copyBlocks()` */
+    copyBlocks(start: number, end: number) {return this.data.copyBlocks(start, end)}
+
+    /** replace start..end with copied blocks, see `DataStore.pasteBlocks()` */
+    pasteBlocks(start: number, end: number, clip: blockClip) {this.data.pasteBlocks(start, end, clip)}
+
+    /** undo the last change and return the selection from before it */
+    undo() {return this.data.undo()}
 
-    /** parse text into blocks and trigger a 'load' event */
-    load(_name: string, text: string) {
+    /** redo the last undone change and return the selection from before it was undone */
+    redo() {return this.data.redo()}
+
+    /** parse text into blocks with `DataStore.load()`, which starts a new undo history, and trigger a 'load' event */
+    load(name: string, text: string) {
         this.suppressTriggers(()=> {
-            this.data.suppressTriggers(()=> {
-                this.replaceText({start: 0, end: this.getLength(), text, source: 'edit'})
-            })
+            this.data.suppressTriggers(()=> this.data.load(name, text))
         })
         this.rerenderAll()
         this.trigger('load')
     }
 
     rerenderAll() {
-        this.editor.setHtml(this.editor.node[0], this.renderBlocks())
+        if (this.blockWindow) this.blockWindow.render()
+        else this.editor.setHtml(this.editor.node[0], this.renderBlocks())
+    }
+
+    /** render only the blocks near the viewport from now on (see BlockWindow) */
+    virtualize(opts?: blockWindowOptions) {
+        this.blockWindow?.destroy()
+        this.blockWindow = new BlockWindow(this, opts)
+        this.rerenderAll()
+        return this.blockWindow
+    }
+
+    /** make sure the DOM contains the blocks for start..end (the editor calls this before using their DOM) */
+    renderRange(start: number, end = start) {this.blockWindow?.renderRange(start, end)}
+
+    /**
+     * Rerender only the blocks a change event adds, updates, and removes.  Updated block
+     * DOM is replaced in place and added block DOM goes after the DOM for its prev block.
+     * This needs each block to render as one element with no nested blocks; if renderBlock
+     * skips over any blocks, this falls back to rerenderAll()
+     */
+    renderChanges({adds, updates, removes}: {adds: {[id: string]: any}, updates: {[id: string]: any}, removes: {[id: string]: any}}) {
+        if (this.blockWindow) return this.blockWindow.changed({adds, updates, removes})
+        const html: {[id: string]: string} = {}
+        const placed: {[id: string]: boolean} = {}
+
+        for (const id of Object.keys(adds).concat(Object.keys(updates))) {
+            const block = this.getBlock(id)
+            const [blockHtml, next] = this.renderBlock(block)
+
+            if ((next || null) !== (block.next || null)) return this.rerenderAll()
+            html[id] = blockHtml
+        }
+        for (const id in removes) this.nodeForId(id)?.[0]?.remove()
+        for (const id in html) {
+            if (!this.placeBlock(this.getBlock(id), html, placed)) return this.rerenderAll()
+        }
+    }
+
+    /** render a changed block after its prev block's DOM, placing prev first if it also changed */
+    placeBlock(block: block, html: {[id: string]: string}, placed: {[id: string]: boolean}) {
+        if (placed[block._id]) return true
+        placed[block._id] = true
+        if (block.prev && html[block.prev] && !this.placeBlock(this.getBlock(block.prev), html, placed)) return false
+        const prevNode: Element = block.prev ? this.nodeForId(block.prev)?.[0] : null
+        let node: Element = this.nodeForId(block._id)?.[0]
+
+        if (block.prev && !prevNode) return false
+        if (!node || node.previousElementSibling !== prevNode) {
+            node?.remove()
+            node = document.createElement('span')
+            if (prevNode) prevNode.after(node)
+            else this.editor.node[0].prepend(node)
+        }
+        this.editor.setHtml(node, html[block._id], true)
+        return true
     }
 
     blockCount() {return Object.keys(this.blocks).length}
@@ -278,6 +430,8 @@ export class BasicEditingOptionsNew extends Observable {
 
     blockOffsetForDocOffset(dOff: number) {return this.data.blockOffsetForDocOffset(dOff)}
 
+    graphemeBoundary(offset: number, forward: boolean) {return this.data.graphemeBoundary(offset, forward)}
+
     getPositionForBlock(block: block) {
         let cur = this.getBlock(this.getFirst())
         let offset = 0
@@ -351,7 +505,7 @@ export class BasicEditingOptionsNew extends Observable {
                     if (cursor.isEmpty() || !sameCharacter(cursor.character(), block.text[offset])) {
                         return {block, offset}
                     }
-                    cursor.forwardChar()
+                    cursor.forwardChars(1)
                 }
             }
             block = this.data.getBlock(block.next)
@@ -422,13 +576,21 @@ export function copyBlock(block) {return !block ? null : Object.assign({}, block
  * ------
  * Data objects support the Observable protocol and emit change events in response to data changes
  *
- * `change {adds, updates, removes, oldFirst, old}`
+ * `change {adds, updates, removes, oldFirst, old, replacement}`
  *
  *   * `oldFirst id`: the previous first (might be the same as the current)
  *   * `adds {id->true}`: added items
  *   * `updates {id->true}`: updated items
  *   * `removes {id->true}`: removed items
  *   * `old {id->old block}`: the old items from updates and removes
+ *   * `replacement`: the replacement that caused the change, if it came from replaceText
+ *
+ * `undoDiscarded {stack, transaction}`: an undo or redo step no longer matched the document and was dropped (see UndoManager)
+ *
+ * `rejected {replacement, protections, clipped}`: a protection (see below) stopped a replacement
+ *
+ *   * `protections`: the names of the protections in the way
+ *   * `clipped`: the replacements made instead, empty if replacement was rejected
  *
  * Internal API -- provide/override these if you want to change how the store accesses data
  * ----------------------------------------------------------------------------------------
@@ -453,7 +615,89 @@ export function copyBlock(block) {return !block ? null : Object.assign({}, block
  * * `newId()`:
  * * `docOffsetForBlockOffset(args...) -> offset`: args can be a blockOffset or block, offset
  * * `blockOffsetForDocOffset(offset) -> blockOffset`: the block offset for a position in the document
+ * * `replaceText(repl)`: replace text; repl can be an array of non-overlapping replacements to make as one change
+ * * `copyBlocks(start, end) -> {blocks: [{block, whole}]}`: copies of the blocks in start..end, with their text clipped to it
+ * * `pasteBlocks(start, end, clip)`: replace start..end with the text of copied blocks, keeping the properties of whole blocks
  * * `suppressTriggers(func) -> func's return value`: suppress triggers while executing func (inherited from Observable)
+ * * `undo() -> selection`: undo the last change (see UndoManager)
+ * * `redo() -> selection`: redo the last undone change
+ * * `setUndoAdapter(adapter)`: keep undo history in an UndoAdapter, like LogUndoAdapter; set it before `load()` to keep persisted history
+ *
+ * Marks
+ * -----
+ * Marks are named document positions that float along with `replaceText`.
+ *
+ * * `addMark(name, offset, {gravity, deleteWhenRemoved})`: add a point mark; with 'left' gravity (the default) it stays before text inserted at its location
+ * * `addRangeMark(name, start, end, {inclusive, deleteWhenRemoved})`: add a range mark, which shrinks when text inside it is deleted
+ * * `removeMark(name)`: remove a point or range mark
+ * * `getMarkLocation(name) -> offset`: a point mark's location
+ * * `getRangeMarkLocation(name) -> {start, end}`: a range mark's location
+ * * `marksInRange(start, end) -> [{name, start, end, range}]`: point marks inside start..end and range marks overlapping it
+ *
+ * Marks with `deleteWhenRemoved` are deleted when all of the text they cover is removed.
+ *
+ * Change hooks
+ * ------------
+ * `beforeChange` hooks see each replacement, with its `source`, before it changes the
+ * document, along with `oldBlocks`, the blocks it would change (hooks must not modify
+ * them).  A hook returns true or nothing to approve the replacement, false to cancel it, or
+ * a replacement or an array of them to make instead; replacements without a source get the
+ * original's.  Hooks run in the order they were added and each one sees what the earlier
+ * ones returned, so a rewrite only goes through the hooks after the one that made it.
+ * Hooks see every source, including 'remote' edits from collaborators, which they should
+ * not cancel, but not `load()`.  Protections apply after the hooks.
+ *
+ * Undo, redo, and `restore()` go through the hooks as one replacement for the text they
+ * change, with the source 'undo', 'redo', or 'restore'.  They can't be rewritten, so a hook
+ * that rewrites one cancels it.  A cancelled undo or redo stays in the history.
+ *
+ * * `addBeforeChange(hook(repl, oldBlocks)) -> hook`: add a hook to the end of the chain
+ * * `removeBeforeChange(hook)`
+ *
+ * Protection
+ * ----------
+ * Protected text can't be changed by replacements from `protectedSources` ('edit',
+ * 'replace', 'undo', and 'redo'), which come from users, so undoing can't change protected
+ * text that a program wrote.  Programs can still change it with other sources, like code
+ * that writes generated results, and `restore()` is a program source that bypasses
+ * protections.  A protection is a range mark or a predicate on
+ * blocks.  Replacements that delete any protected text or insert inside it are rejected
+ * but text can be inserted at the edges of protected ranges.  With the `clip` option,
+ * replacements are clipped to the unprotected text instead, and the inserted text goes in
+ * the first unprotected piece.  Rejected and clipped replacements trigger a `rejected`
+ * event.
+ *
+ * * `protect(name, start, end, {clip})`: protect start..end with a range mark named name
+ * * `protectBlocks(name, predicate(block), {clip})`: protect the blocks the predicate accepts
+ * * `unprotect(name)`: remove a protection
+ * * `protectedRanges(start, end) -> [{name, start, end, clip}]`: protected ranges in the way of replacing start..end
+ *
+ * Characters
+ * ----------
+ * Offsets count UTF-16 code units, like JavaScript strings, but carets move and delete by
+ * grapheme cluster, so they never split emoji, flags, or letters with combining marks.
+ *
+ * * `graphemeBoundary(offset, forward) -> offset`: the offset after the cluster at offset, or before the one that ends at offset
+ *
+ * Search
+ * ------
+ * Searches run over the whole document text, so matches can span blocks.
+ *
+ * * `search(pattern, {ignoreCase, wholeWord}) -> [{start, end, text, groups, named}]`: matches for a string or RegExp
+ * * `replaceAll(pattern, replacement, options) -> count`: replace every match as one change (and one undo step)
+ * * `replaceMatches(matches, replacement) -> count`: replace some of the matches from `search()` as one change
+ *
+ * Snapshots
+ * ---------
+ * `version` counts the changes to the store (`changeCount` only tracks nested
+ * `makeChanges` calls).  After each change, the store adds a DocumentSnapshot of the
+ * new version to `history`, a SnapshotHistory holding the last `history.limit` versions.
+ * Snapshots share the store's persistent block index and marks, and consecutive snapshots
+ * share their mark tables until marks are added or removed, so this copies nothing per edit.
+ *
+ * * `snapshot() -> DocumentSnapshot`: the current document, including marks (this does not copy blocks)
+ * * `restore(snapshot)`: change the document back to a snapshot, as an undoable change (marks float through it)
+ * * `snapshotFromJSON(json) -> DocumentSnapshot`: the snapshot for `JSON.parse(JSON.stringify(snapshot))`
  */
 
 export class DataStore extends Observable {
@@ -461,8 +705,19 @@ export class DataStore extends Observable {
     blockIndex: FingerTree<dataMeasure, blockValue>
     changeCount: number
     markNames: {[name: string]: boolean}
-    marks: FingerTree<{names: Set<string>, length: number}, {name: string}>
+    markInfo: {[name: string]: {gravity: markGravity, deleteWhenRemoved: boolean}}
+    rangeMarks: {[name: string]: {start: string, end: string, deleteWhenRemoved: boolean}}
+    /** copies of markInfo and rangeMarks that snapshots share until marks are added or removed */
+    markTables: {markInfo: DataStore['markInfo'], rangeMarks: DataStore['rangeMarks']}
+    marks: FingerTree<{names: Set<string>, length: number}, {name: string, offset: number}>
     first: string
+    undoManager: UndoManager
+    version: number
+    history: SnapshotHistory
+    beforeChangeHooks: beforeChangeHook[] = []
+    protections: {[name: string]: protection} = {}
+    /** replacements from these sources are checked against protections */
+    protectedSources = ['edit', 'replace', 'undo', 'redo']
 
     constructor() {
         super();
@@ -470,16 +725,23 @@ export class DataStore extends Observable {
         this.blockIndex = this.newBlockIndex();
         this.changeCount = 0;
         this.clearMarks();
-        this.markNames = {};
+        this.undoManager = new UndoManager(this);
+        this.version = 0;
+        this.history = new SnapshotHistory();
     }
 
     load(name, text) {
         var block, blockMap, i, j, len, newBlocks, prev, ref;
         blockMap = {};
         newBlocks = this.parseBlocks(text);
+        // reuse the ids in persisted undo history, if it is for this text
+        if (this.undoManager.adoptIds(newBlocks)) {
+            for (const {_id} of newBlocks) idCounter = Math.max(idCounter, Number(_id.match(/^block(\d+)$/)?.[1] ?? -1) + 1);
+        } else {
+            for (const block of newBlocks) block._id = this.newId();
+        }
         for (i = j = 0, len = newBlocks.length; j < len; i = ++j) {
             block = newBlocks[i];
-            block._id = this.newId();
             blockMap[block._id] = block;
             if (prev = newBlocks[i - 1]) {
                 prev.next = block._id;
@@ -488,8 +750,10 @@ export class DataStore extends Observable {
         }
         this.first = (ref = newBlocks[0]) != null ? ref._id : '0';
         this.blocks = blockMap;
+        this.history.clear();
         return this.makeChanges(() => {
             this.indexBlocks();
+            this.addSnapshot();
             return this.trigger('load');
         });
     }
@@ -543,7 +807,15 @@ export class DataStore extends Observable {
     }
 
     clearMarks() {
-        return this.marks = FingerTree.fromArray([], {
+        this.markNames = {};
+        this.markInfo = {};
+        this.rangeMarks = {};
+        this.markTables = null;
+        return this.marks = this.newMarkIndex();
+    }
+
+    newMarkIndex(contents: {name: string, offset: number}[] = []) {
+        return FingerTree.fromArray<{names: Set<string>, length: number}, {name: string, offset: number}>(contents, {
             identity: function() {
                 return {
                     names: Set(),
@@ -565,14 +837,20 @@ export class DataStore extends Observable {
         });
     }
 
-    addMark(name, offset) {
+    /**
+     * add a point mark at offset.  A mark with left gravity (the default) stays before
+     * text inserted at its location, a mark with right gravity moves after it
+     */
+    addMark(name: string, offset: number, options: markOptions = {}) {
         var first, l, n, rest;
         if (this.markNames[name]) {
             this.removeMark(name);
         }
         this.markNames[name] = true;
+        this.markInfo[name] = {gravity: options.gravity || 'left', deleteWhenRemoved: !!options.deleteWhenRemoved};
+        this.markTables = null;
         [first, rest] = this.marks.split(function(m) {
-            return m.length >= offset;
+            return m.length > offset;
         });
         l = first.measure().length;
         if (!rest.isEmpty()) {
@@ -588,10 +866,32 @@ export class DataStore extends Observable {
         }));
     }
 
-    removeMark(name) {
+    /**
+     * add a range mark from start to end.  Text inserted at the ends of an inclusive
+     * range goes inside it.  Deleting text inside the range shrinks it
+     */
+    addRangeMark(name: string, start: number, end: number, options: rangeMarkOptions = {}) {
+        const deleteWhenRemoved = !!options.deleteWhenRemoved
+
+        if (this.markNames[name] || this.rangeMarks[name]) this.removeMark(name)
+        this.rangeMarks[name] = {start: `${name}.start`, end: `${name}.end`, deleteWhenRemoved}
+        this.addMark(`${name}.start`, Math.min(start, end), {gravity: options.inclusive ? 'left' : 'right'})
+        this.addMark(`${name}.end`, Math.max(start, end), {gravity: options.inclusive ? 'right' : 'left'})
+    }
+
+    /** remove a point mark or a range mark */
+    removeMark(name: string) {
         var first, n, removed, rest;
-        if (this.markNames[name]) {
+        const range = this.rangeMarks[name]
+
+        if (range) {
+            delete this.rangeMarks[name];
+            this.removeMark(range.start);
+            this.removeMark(range.end);
+        } else if (this.markNames[name]) {
             delete this.markNames[name];
+            delete this.markInfo[name];
+            this.markTables = null;
             [first, rest] = this.marks.split(function(m) {
                 return m.names.contains(name);
             });
@@ -624,7 +924,7 @@ export class DataStore extends Observable {
         return m;
     }
 
-    getMarkLocation(name) {
+    getMarkLocation(name: string) {
         var first, rest;
         if (this.markNames[name]) {
             [first, rest] = this.marks.split(function(m) {
@@ -636,35 +936,358 @@ export class DataStore extends Observable {
         }
     }
 
-    blockOffsetForMark(name) {
-        var offset;
-        if (offset = this.getMarkLocation(name)) {
+    /** `getRangeMarkLocation(name) -> {start, end}` */
+    getRangeMarkLocation(name: string) {
+        const range = this.rangeMarks[name]
+
+        if (range) return {start: this.getMarkLocation(range.start), end: this.getMarkLocation(range.end)}
+    }
+
+    /**
+     * `marksInRange(start, end) -> [{name, start, end, range}]`: the point marks inside
+     * start..end and the range marks that overlap it, in document order
+     */
+    marksInRange(start: number, end: number) {
+        const result: markLocation[] = []
+        const rangeStarts: {[name: string]: markLocation} = {}
+        let location = 0
+
+        for (const {name, offset} of treeToArray(this.marks)) {
+            location += offset
+            const [range, side] = this.rangeMarkFor(name)
+
+            if (!range) {
+                if (start <= location && location <= end) result.push({name, start: location, end: location, range: false})
+            } else if (side === 'start') {
+                rangeStarts[range] = {name: range, start: location, end: location, range: true}
+            } else if (rangeStarts[range]) {
+                const mark = rangeStarts[range]
+
+                mark.end = location
+                delete rangeStarts[range]
+                if (mark.start <= end && start <= location) result.push(mark)
+            }
+            if (location > end && !Object.keys(rangeStarts).length) break
+        }
+        return result.sort((a, b)=> a.start - b.start)
+    }
+
+    rangeMarkFor(markName: string): [string, 'start' | 'end'] | [] {
+        const m = markName.match(/^(.*)\.(start|end)$/)
+
+        return m && this.rangeMarks[m[1]]?.[m[2]] === markName ? [m[1], m[2] as 'start' | 'end'] : []
+    }
+
+    blockOffsetForMark(name: string) {
+        const offset = this.getMarkLocation(name)
+
+        if (offset != null) {
             return this.blockOffsetForDocOffset(offset);
         }
     }
 
-    floatMarks(start, end, newLength) {
-        var first, n, oldLength, rest;
-        if (newLength !== (oldLength = end - start)) {
-            [first, rest] = this.marks.split(function(m) {
-                return m.length > start;
-            });
-            if (!rest.isEmpty()) {
-                n = rest.peekFirst();
-                return this.marks = first.concat(rest.removeFirst().addFirst({
-                    name: n.name,
-                    offset: n.offset + newLength - oldLength
-                }));
+    /**
+     * move the marks after replacing start..end with newLength characters.  Marks after
+     * the replacement shift, marks inside it collapse to one of its ends (by gravity), and
+     * marks with `deleteWhenRemoved` are removed when the text they cover is removed
+     */
+    floatMarks(start: number, end: number, newLength: number) {
+        if (start === end && !newLength) return
+        const [before, rest] = this.marks.split((m)=> m.length >= start)
+        const base = before.measure().length
+        const [inside, after] = rest.split((m)=> base + m.length > end)
+        const insideLength = inside.measure().length
+        const moved: {name: string, from: number, location: number}[] = []
+        let from = base
+
+        for (const {name, offset} of treeToArray(inside)) {
+            from += offset
+            moved.push({name, from, location: this.floatLocation(name, from, start, end, newLength)})
+        }
+        this.orderRangeEnds(moved)
+        const removed = this.removedMarks(moved, start, end)
+        let marks = before
+        let prev = base
+
+        for (const {name, location} of moved.filter(({name})=> !removed[name]).sort((a, b)=> a.location - b.location)) {
+            marks = marks.addLast({name, offset: location - prev})
+            prev = location
+        }
+        if (!after.isEmpty()) {
+            const n = after.peekFirst()
+            const newLocation = base + insideLength + n.offset + newLength - (end - start)
+
+            marks = marks.concat(after.removeFirst().addFirst({name: n.name, offset: newLocation - prev}))
+        }
+        this.marks = marks
+        for (const name in removed) {
+            this.markTables = null
+            delete this.markNames[name]
+            delete this.markInfo[name]
+            const [range] = this.rangeMarkFor(name)
+
+            if (range) delete this.rangeMarks[range]
+        }
+    }
+
+    floatLocation(name: string, location: number, start: number, end: number, newLength: number) {
+        if (start < end && location === start) return start
+        if (start < end && location === end) return start + newLength
+        return this.markInfo[name]?.gravity === 'right' ? start + newLength : start
+    }
+
+    /** an empty exclusive range would turn inside out when text is inserted into it, so keep it empty */
+    orderRangeEnds(moved: {name: string, location: number}[]) {
+        const ends: {[name: string]: {location: number}} = {}
+
+        for (const mark of moved) ends[mark.name] = mark
+        for (const mark of moved) {
+            const [range, side] = this.rangeMarkFor(mark.name)
+            const other = side === 'start' && ends[this.rangeMarks[range].end]
+
+            if (other && other.location < mark.location) mark.location = other.location
+        }
+    }
+
+    /** the marks to delete because replacing start..end removed the text they cover */
+    removedMarks(marks: {name: string, from: number}[], start: number, end: number) {
+        const removed: {[name: string]: boolean} = {}
+        const inside: {[name: string]: boolean} = {}
+
+        if (start === end) return removed
+        for (const {name} of marks) inside[name] = true
+        for (const {name, from} of marks) {
+            const [range] = this.rangeMarkFor(name)
+
+            if (range) {
+                const {start: startName, end: endName, deleteWhenRemoved} = this.rangeMarks[range]
+
+                if (deleteWhenRemoved && inside[startName] && inside[endName]) {
+                    removed[startName] = removed[endName] = true
+                }
+            } else if (this.markInfo[name]?.deleteWhenRemoved && start < from && from < end) {
+                removed[name] = true
             }
         }
+        return removed
+    }
+
+    addBeforeChange(hook: beforeChangeHook) {
+        this.beforeChangeHooks.push(hook)
+        return hook
     }
 
-    replaceText({ start, end, text }) {
+    removeBeforeChange(hook: beforeChangeHook) {
+        this.beforeChangeHooks = this.beforeChangeHooks.filter((h)=> h !== hook)
+    }
+
+    /**
+     * the replacements to make for repls after the beforeChange hooks and the protections.
+     * Replacements that nothing changed are returned as they are
+     */
+    allowedReplacements(repls: replacement[]) {
+        for (const hook of this.beforeChangeHooks) {
+            repls = repls.flatMap((repl)=> this.runBeforeChange(hook, repl))
+        }
+        return repls.flatMap((repl)=> this.protectedReplacements(repl) ?? [repl])
+    }
+
+    /**
+     * whether the beforeChange hooks and the protections let repl through as it is, for
+     * changes that can't be rewritten, like undo.  Replacements that change no text pass
+     */
+    allowsReplacement(repl: replacement) {
+        if (repl.start === repl.end && !repl.text) return true
+        const allowed = this.allowedReplacements([repl])
+
+        return allowed.length === 1 && allowed[0] === repl
+    }
+
+    runBeforeChange(hook: beforeChangeHook, repl: replacement): replacement[] {
+        const oldBlocks = this.getLength() ? this.blockOverlapsForReplacement(repl.start, repl.end, repl.text).blocks : []
+        const result = hook(repl, oldBlocks)
+
+        if (result === undefined || result === true) return [repl]
+        if (!result) return []
+        return (Array.isArray(result) ? result : [result]).map((r)=> ({source: repl.source, ...r}))
+    }
+
+    /** protect start..end from edits, see Protection above */
+    protect(name: string, start: number, end: number, options: protectionOptions = {}) {
+        this.unprotect(name)
+        this.addRangeMark(name, start, end)
+        this.protections[name] = {name, clip: !!options.clip}
+    }
+
+    /** protect the blocks predicate accepts from edits, like org results blocks */
+    protectBlocks(name: string, predicate: (block: block)=> boolean, options: protectionOptions = {}) {
+        this.unprotect(name)
+        this.protections[name] = {name, clip: !!options.clip, blocks: predicate}
+    }
+
+    unprotect(name: string) {
+        const protection = this.protections[name]
+
+        if (protection) {
+            delete this.protections[name]
+            if (!protection.blocks) this.removeMark(name)
+        }
+    }
+
+    /** the protected ranges that replacing start..end would change */
+    protectedRanges(start: number, end = start) {
+        const ranges: protectedRange[] = []
+        const inTheWay = (from: number, to: number)=> start === end ? from < start && start < to : start < to && from < end
+
+        for (const {name, clip, blocks} of Object.values(this.protections)) {
+            if (!blocks) {
+                const loc = this.getRangeMarkLocation(name)
+
+                if (loc && inTheWay(loc.start, loc.end)) ranges.push({name, start: loc.start, end: loc.end, clip})
+                continue
+            }
+            if (!this.getLength()) continue
+            const {block: id, offset} = this.blockOffsetForDocOffset(start)
+            let block = this.getBlock(id)
+            let pos = start - offset
+
+            while (block && (pos < end || pos === start)) {
+                const blockEnd = pos + block.text.length
+
+                if (inTheWay(pos, blockEnd) && blocks(block)) ranges.push({name, start: pos, end: blockEnd, clip})
+                pos = blockEnd
+                block = this.getBlock(block.next)
+            }
+        }
+        return ranges.sort((a, b)=> a.start - b.start)
+    }
+
+    /**
+     * the replacements to make instead of repl because of protections, or null if no
+     * protection is in the way.  An empty array rejects repl
+     */
+    protectedReplacements(repl: replacement): replacement[] {
+        if (!this.protectedSources.includes(repl.source)) return null
+        const ranges = this.protectedRanges(repl.start, repl.end)
+        const clipped: replacement[] = []
+
+        if (!ranges.length) return null
+        if (ranges.every((r)=> r.clip)) {
+            let pos = repl.start
+
+            for (const range of ranges) {
+                if (pos < range.start) clipped.push({...repl, start: pos, end: Math.min(range.start, repl.end), text: ''})
+                pos = Math.max(pos, range.end)
+            }
+            if (pos < repl.end) clipped.push({...repl, start: pos, end: repl.end, text: ''})
+            if (clipped.length) clipped[0].text = repl.text
+        }
+        this.trigger('rejected', {replacement: repl, protections: ranges.map((r)=> r.name), clipped})
+        return clipped
+    }
+
+    /** replace text; an array of replacements is made as one change, see `replaceTexts()` */
+    replaceText(repl: replacement | replacement[]) {
+        if (Array.isArray(repl)) return this.replaceTexts(repl);
+        return this.makeReplacements(this.allowedReplacements([repl]))
+    }
+
+    /**
+     * make non-overlapping replacements (in document offsets from before the change) as one
+     * change, so they are one undo step and one change event.  The change's replacement
+     * spans all of them but marks float through each one separately
+     */
+    replaceTexts(repls: replacement[]) {return this.makeReplacements(this.allowedReplacements(repls))}
+
+    /** make one replacement, after the hooks and protections */
+    makeReplacement(repl: replacement) {
         var newBlocks, oldBlocks, prev;
+        const { start, end, text } = repl;
         ({ prev, oldBlocks, newBlocks } = this.changesForReplacement(start, end, text));
         if (oldBlocks) {
-            this.change(this.changesFor(prev, oldBlocks.slice(), newBlocks.slice()));
-            return this.floatMarks(start, end, text.length);
+            // float marks first so change listeners see them in their new locations
+            this.floatMarks(start, end, text.length);
+            return this.change(this.changesFor(prev, oldBlocks.slice(), newBlocks.slice()), repl);
+        }
+    }
+
+    /** make replacements as one change, after the hooks and protections */
+    makeReplacements(repls: replacement[]) {
+        if (repls.length < 2) return repls.length ? this.makeReplacement(repls[0]) : undefined
+        repls = repls.slice().sort((a, b)=> a.start - b.start)
+        const start = repls[0].start
+        const end = last(repls).end
+        const text = this.getDocSubstring(start, end)
+        let newText = ''
+        let pos = start
+
+        for (const repl of repls) {
+            if (repl.start < pos) throw new Error(`Overlapping replacements at ${repl.start}`)
+            newText += text.substring(pos - start, repl.start - start) + repl.text
+            pos = repl.end
+        }
+        const { prev, oldBlocks, newBlocks } = this.changesForReplacement(start, end, newText)
+
+        if (oldBlocks) {
+            // float marks through each replacement, last to first so the earlier offsets stay valid
+            for (let i = repls.length; i-- > 0; ) this.floatMarks(repls[i].start, repls[i].end, repls[i].text.length)
+            return this.change(this.changesFor(prev, oldBlocks.slice(), newBlocks.slice()), {start, end, text: newText, source: repls[0].source})
+        }
+    }
+
+    copyBlocks(start: number, end: number): blockClip {
+        const blocks: blockClip['blocks'] = []
+        const {block: id, offset} = this.blockOffsetForDocOffset(start)
+        let block = this.getBlock(id)
+        let pos = start - offset
+
+        while (block && pos < end) {
+            const {_id, prev, next, ...props} = block
+            const from = Math.max(start, pos) - pos
+            const to = Math.min(end, pos + block.text.length) - pos
+
+            if (from < to) blocks.push({block: {...props, text: block.text.substring(from, to)}, whole: from === 0 && to === block.text.length})
+            pos += block.text.length
+            block = this.getBlock(block.next)
+        }
+        return {blocks}
+    }
+
+    /**
+     * replace start..end with the text of copied blocks as one change.  New blocks that
+     * start where whole copied blocks were pasted and have the same text get the copied
+     * blocks' properties, so properties that are not in the text survive copying between
+     * documents.  Properties parsed from the text win over copied ones.
+     */
+    pasteBlocks(start: number, end: number, clip: blockClip, source = 'edit') {
+        const text = clip.blocks.map((b)=> b.block.text).join('')
+        const repl = {start, end, text, source}
+        const allowed = this.allowedReplacements([repl])
+
+        // a hook or protection changed it, so paste it as text
+        if (allowed.length !== 1 || allowed[0] !== repl) return this.makeReplacements(allowed)
+        // whole copied blocks by the document offset where they are pasted
+        const whole = new Map<number, blockClip['blocks'][number]['block']>()
+        let pos = start
+
+        for (const {block, whole: isWhole} of clip.blocks) {
+            if (isWhole) whole.set(pos, block)
+            pos += block.text.length
+        }
+        const { prev, oldBlocks, newBlocks } = this.changesForReplacement(start, end, text)
+
+        if (oldBlocks) {
+            const prevBlock = this.getBlock(prev)
+
+            pos = prevBlock ? this.docOffsetForBlockOffset(prev, prevBlock.text.length) : 0
+            for (const block of newBlocks) {
+                const copied = whole.get(pos)
+
+                if (copied?.text === block.text) Object.assign(block, {...copied, ...block})
+                pos += block.text.length
+            }
+            this.floatMarks(start, end, text.length)
+            return this.change(this.changesFor(prev, oldBlocks.slice(), newBlocks.slice()), {start, end, text, source})
         }
     }
 
@@ -884,6 +1507,11 @@ export class DataStore extends Observable {
             prev = this.getBlock(block.prev);
             if (!block.prev) {
                 this.setIndex(this.blockIndex.addFirst(indexNode(block)));
+            } else if (!this.fingerNode(block.next) && this.fingerNode(block.prev)) {
+                // next is not indexed yet (it comes later in this change), so go after prev
+                // instead of at the end, which would move every earlier block during the repair
+                [first, rest] = this.splitBlockIndexOnId(block.prev);
+                this.setIndex(insertAfterSplit(first, node, rest));
             } else {
                 [first, rest] = this.splitBlockIndexOnId(block.next);
                 this.setIndex(first.addLast(node).concat(rest));
@@ -947,11 +1575,21 @@ export class DataStore extends Observable {
         } else {
             return {
                 block: results[0].peekLast().id,
-                offset: results[0].removeLast().measure().length
+                offset: results[0].peekLast().length
             };
         }
     }
 
+    graphemeBoundary(offset: number, forward: boolean) {
+        if (forward ? offset >= this.getLength() : offset <= 0) return offset
+        // clusters never span blocks because blocks end in newlines
+        const {block, offset: blockOffset} = this.blockOffsetForDocOffset(forward ? offset : offset - 1)
+        const text = this.getBlock(block).text
+
+        return forward ? offset - blockOffset + nextGrapheme(text, blockOffset)
+            : offset - 1 - blockOffset + previousGrapheme(text, blockOffset + 1)
+    }
+
     offsetForBlock(blockOrId) {
         var id;
         id = typeof blockOrId === 'string' ? blockOrId : blockOrId._id;
@@ -999,6 +1637,46 @@ export class DataStore extends Observable {
         return text;
     }
 
+    /**
+     * the matches for pattern in the document, in order.  Strings match literally and
+     * RegExps match as if they had the 'g' flag.  Matches can span blocks and empty
+     * matches are skipped
+     */
+    search(pattern: string | RegExp, options: searchOptions = {}): searchMatch[] {
+        const text = this.getText()
+        const re = searchRegExp(pattern, options)
+        const matches: searchMatch[] = []
+
+        for (let m: RegExpExecArray; m = re.exec(text); ) {
+            if (!m[0].length) {
+                re.lastIndex++
+                continue
+            }
+            matches.push({start: m.index, end: m.index + m[0].length, text: m[0], groups: m.slice(1), named: m.groups})
+        }
+        return matches
+    }
+
+    /**
+     * replace every match for pattern with replacement in a single change, so it is one
+     * undo step and one change event.  String replacements can use `$&`, `$1`, and `$<name>`
+     * like `String.replace()`.  Returns the number of replacements
+     */
+    replaceAll(pattern: string | RegExp, replacement: string | ((match: searchMatch)=> string), options: searchOptions = {}) {
+        return this.replaceMatches(this.search(pattern, options), replacement)
+    }
+
+    /** replace matches from `search()` in a single change, see `replaceAll()` */
+    replaceMatches(matches: searchMatch[], replacement: string | ((match: searchMatch)=> string)) {
+        this.replaceTexts(matches.map((m)=> ({
+            start: m.start,
+            end: m.end,
+            text: typeof replacement === 'string' ? expandReplacement(replacement, m) : replacement(m),
+            source: 'replace',
+        })))
+        return matches.length
+    }
+
     check() {
         var bl, first, lastBlock, next, oldBl, prev, seen;
         seen = {};
@@ -1056,10 +1734,109 @@ export class DataStore extends Observable {
         return results1;
     }
 
-    change(changes) {
-        return this.trigger('change', this.makeChange(changes));
+    /** make a change, record it for undo, and trigger a change event; repl is the replacement that caused the change, if any */
+    change(changes, repl?: replacement) {
+        const result = this.makeChange(changes);
+
+        if (repl) result.replacement = repl;
+        this.undoManager.record(result, repl);
+        this.addSnapshot();
+        return this.trigger('change', result);
+    }
+
+    addSnapshot() {
+        this.version++;
+        this.history.add(this.snapshot());
+    }
+
+    snapshot() {
+        this.markTables ??= {markInfo: Object.assign({}, this.markInfo), rangeMarks: Object.assign({}, this.rangeMarks)};
+        return new DocumentSnapshot({
+            version: this.version,
+            time: Date.now(),
+            first: this.getFirst(),
+            blockIndex: this.blockIndex,
+            marks: this.marks,
+            ...this.markTables,
+        });
+    }
+
+    /**
+     * Change the document back to snapshot.  The blocks and index are replaced wholesale,
+     * so this also recovers from a change that damaged the index.  The current marks float
+     * through the difference between the texts.  This does nothing if a beforeChange hook
+     * cancels or rewrites the difference, see Change hooks
+     */
+    restore(snapshot: DocumentSnapshot) {
+        const diff = textDifference(this.getText(), snapshot.getText())
+
+        if (!this.allowsReplacement({...diff, source: 'restore'})) return
+        const blocks: {[id: string]: block} = {}
+        const sets: {[id: string]: block} = {}
+        const removes: {[id: string]: block} = {}
+        const old: {[id: string]: block} = {}
+        const adds: {[id: string]: block} = {}
+        const updates: {[id: string]: block} = {}
+        const result = {adds, updates, removes, old, sets, oldFirst: this.getFirst(), first: snapshot.first}
+
+        for (const blk of snapshot.blockList()) {
+            const current = this.blocks[blk._id]
+
+            blocks[blk._id] = blk
+            if (current !== blk) {
+                sets[blk._id] = blk
+                if (current) {
+                    old[blk._id] = current
+                    updates[blk._id] = blk
+                } else {
+                    adds[blk._id] = blk
+                }
+            }
+        }
+        for (const id in this.blocks) {
+            if (!blocks[id]) removes[id] = old[id] = this.blocks[id]
+        }
+        this.floatMarks(diff.start, diff.end, diff.text.length)
+        this.makeChanges(()=> {
+            this.blocks = blocks
+            this.setFirst(snapshot.first)
+            this.setIndex(snapshot.blockIndex)
+        })
+        this.undoManager.record(result)
+        this.addSnapshot()
+        return this.trigger('change', result)
+    }
+
+    snapshotFromJSON(json: snapshotJSON) {
+        const marks = []
+        const markInfo = {}
+        let location = 0
+
+        for (const {name, location: markLocation, gravity, deleteWhenRemoved} of json.marks) {
+            marks.push({name, offset: markLocation - location})
+            markInfo[name] = {gravity, deleteWhenRemoved}
+            location = markLocation
+        }
+        return new DocumentSnapshot({
+            version: json.version,
+            time: json.time,
+            first: json.first,
+            blockIndex: this.newBlockIndex(json.blocks.map(indexNode)),
+            marks: this.newMarkIndex(marks),
+            markInfo,
+            rangeMarks: json.rangeMarks,
+        })
     }
 
+    /** keep undo history in adapter instead of in memory (see UndoAdapter) */
+    setUndoAdapter(adapter: UndoAdapter) {this.undoManager.setAdapter(adapter)}
+
+    /** undo the last change and return the selection from before it */
+    undo() {return this.undoManager.undo()}
+
+    /** redo the last undone change and return the selection from before it was undone */
+    redo() {return this.undoManager.redo()}
+
     makeChange({ first, sets, removes, oldBlocks, newBlocks }) {
         return this.makeChanges(() => {
             var adds, bl, block, err, id, old, result, updates;
@@ -1226,7 +2003,35 @@ export function blockText(blocks) {
     return result
 }
 
-function indexNode(block) {return {id: block._id, length: block.text.length}}
+/** a global RegExp for a search pattern; strings match literally */
+export function searchRegExp(pattern: string | RegExp, {ignoreCase, wholeWord}: searchOptions = {}) {
+    let source = typeof pattern === 'string' ? pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&') : pattern.source
+    let flags = typeof pattern === 'string' ? 'u' : pattern.flags.replace(/[gy]/g, '')
+
+    if (wholeWord) {
+        const word = flags.includes('u') ? '[\\p{L}\\p{N}_]' : '\\w'
+
+        source = `(?<!${word})(?:${source})(?!${word})`
+    }
+    if (ignoreCase && !flags.includes('i')) flags += 'i'
+    return new RegExp(source, flags + 'g')
+}
+
+/** expand `$$`, `$&`, `$1`..`$99`, and `$<name>` in a replacement string, like `String.replace()` */
+export function expandReplacement(replacement: string, match: searchMatch) {
+    return replacement.replace(/\$(\$|&|\d\d?|<([^>]*)>)/g, (str, ref, name)=> {
+        if (ref === '$') return '$'
+        if (ref === '&') return match.text
+        if (name !== undefined) return match.named ? match.named[name] ?? '' : str
+        if (ref.length === 2 && Number(ref) > match.groups.length) {
+            // like String.replace(), use $1 followed by 0 when there is no group 10
+            return Number(ref[0]) && Number(ref[0]) <= match.groups.length ? (match.groups[Number(ref[0]) - 1] ?? '') + ref[1] : str
+        }
+        return Number(ref) && Number(ref) <= match.groups.length ? match.groups[Number(ref) - 1] ?? '' : str
+    })
+}
+
+function indexNode(block) {return {id: block._id, length: block.text.length, block}}
 
 function insertInSplit(first, middle, rest) {
   if (first.isEmpty()) {
@@ -11,6 +11,8 @@ export declare class FingerTree<Measure, Data> {
     split(measurer: (m: Measure)=> any): [FingerTree<Measure, Data>, FingerTree<Measure, Data>]
     peekFirst(): Data
     addFirst(Data): FingerTree<Measure, Data>;
+    addLast(Data): FingerTree<Measure, Data>;
     isEmpty(): boolean
     removeFirst(): FingerTree<Measure, Data>;
+    concat(other: FingerTree<Measure, Data>): FingerTree<Measure, Data>
 }
@@ -0,0 +1,231 @@
+/** a command takes the editor, the event that ran it, the selection range, and optional arguments */
+export type command = (editor: any, event: Event, range: Range, args?: any)=> any
+
+/** a command or the name of a registered command */
+export type binding = command | string
+
+export type bindings = {[spec: string]: binding}
+
+/** the conflicting pairs of specs and the specs that are not valid in a bindings object */
+export type bindingProblems = {layer: bindings, conflicts: [string, string][], invalid: string[]}
+
+/** key names besides single characters, as the editor reports them */
+export const specialKeyNames = [
+    'TAB', 'ENTER', 'ESC', 'SPC', 'BS', 'DEL', 'LEFT', 'RIGHT', 'UP', 'DOWN',
+    'PAGEUP', 'PAGEDOWN', 'HOME', 'END', 'F1', 'F2', 'F3', 'F4', 'F5', 'F6',
+    'F7', 'F8', 'F9', 'F10', 'F11', 'F12',
+]
+
+/** modifiers in the order the editor reports them */
+const modifierOrder = ['S', 'C', 'M']
+
+const commands = new Map<string, command>()
+
+/** plain bindings objects converted by `Keymap.for()`, with the entries they had then */
+const converted = new WeakMap<bindings, {entries: [string, binding][], keymap: Keymap}>()
+
+/**
+ * Key specs
+ * =========
+ * A key spec is one or more keys separated by spaces, like `'C-X C-F'`.  Each key is
+ * any number of modifiers, `S-` (shift), `C-` (control), and `M-` (alt or meta), followed
+ * by a single character or one of the `specialKeyNames`.  Letters are upper case, since
+ * the editor reports key codes.
+ *
+ * `normalizeKeySpec()` puts the modifiers of each key in the order the editor reports
+ * them (`S-C-M-`), so `'C-S-Z'` and `'S-C-Z'` are the same spec.
+ *
+ * * `parseKeySpec(spec) -> [{key, shift, ctrl, meta}]`: the keys of a spec; throws an Error if spec is not valid
+ * * `normalizeKeySpec(spec) -> string`: the spec as the editor reports it
+ * * `isValidKeySpec(spec) -> boolean`
+ */
+export function parseKeySpec(spec: string) {
+    if (!spec.trim()) throw new Error(`Empty key spec`)
+    return spec.trim().split(/ +/).map((key)=> {
+        const match = key.match(/^((?:[SCM]-)*)(.+)$/)
+        const mods = match[1].split('-').filter((m)=> m)
+        const name = match[2].length === 1 ? match[2].toUpperCase() : match[2]
+
+        if (name.length > 1 && !specialKeyNames.includes(name)) {
+            throw new Error(`Bad key '${key}' in key spec '${spec}'`)
+        }
+        if (new Set(mods).size < mods.length) {
+            throw new Error(`Repeated modifier in key '${key}' in key spec '${spec}'`)
+        }
+        return {key: name, shift: mods.includes('S'), ctrl: mods.includes('C'), meta: mods.includes('M')}
+    })
+}
+
+export function normalizeKeySpec(spec: string) {
+    return parseKeySpec(spec).map(({key, shift, ctrl, meta})=> {
+        const mods = [shift, ctrl, meta].map((on, i)=> on ? `${modifierOrder[i]}-` : '').join('')
+
+        return mods + key
+    }).join(' ')
+}
+
+export function isValidKeySpec(spec: string) {
+    try {
+        parseKeySpec(spec)
+        return true
+    } catch (err) {
+        return false
+    }
+}
+
+/** whether one of two normalized specs is the same as the other or starts with it */
+function keysConflict(a: string, b: string) {
+    return a === b || a.startsWith(b + ' ') || b.startsWith(a + ' ')
+}
+
+/** whether two lists of bindings entries are the same */
+function sameEntries(a: [string, binding][], b: [string, binding][]) {
+    return a.length === b.length && a.every(([spec, binding], i)=> spec === b[i][0] && binding === b[i][1])
+}
+
+/**
+ * Commands
+ * ========
+ * Named commands that key bindings, `editor.runCommand(name, args)`, and command UIs can
+ * use.  The editor registers its built-in commands (its `keyFuncs` and `emacsFuncs`) under
+ * their property names.  Registering a name again replaces its command.
+ *
+ * * `registerCommand(name, command) -> command`
+ * * `unregisterCommand(name)`
+ * * `getCommand(name) -> command`: a registered command, or undefined
+ * * `commandNames() -> [name]`: the registered names, sorted
+ * * `commandName(command) -> name`: the name a command is registered under, or undefined
+ */
+export function registerCommand(name: string, func: command) {
+    commands.set(name, func)
+    return func
+}
+
+export function unregisterCommand(name: string) {commands.delete(name)}
+
+export function getCommand(name: string) {return commands.get(name)}
+
+export function commandNames() {return Array.from(commands.keys()).sort()}
+
+export function commandName(func: command) {
+    for (const [name, f] of commands) {
+        if (f === func) return name
+    }
+}
+
+/**
+ * Keymap
+ * ======
+ * Key bindings from normalized key specs to commands or command names.
+ *
+ * A binding conflicts with another one when they have the same keys or when one's keys
+ * start with the other's, because the shorter one runs before the longer one can finish.
+ * `bind()` throws an Error naming the conflicting specs unless it is told to replace them.
+ *
+ * The editor looks keys up in layers, first to last:
+ * 1. transient keymaps, newest first (see `editor.pushKeymap()`)
+ * 2. the options' `blockBindings` for the type of the block under the caret
+ * 3. the options' `bindings`, for the document type
+ * 4. `globalKeymap`, for every editor
+ *
+ * Each layer can be a Keymap or a plain object like `defaultBindings`.
+ *
+ * Methods
+ * -------
+ * * `bind(spec, binding, replace = false) -> this`: add a binding
+ * * `unbind(spec)`: remove a binding
+ * * `conflicts(spec) -> [spec]`: the bound specs that conflict with spec
+ * * `lookup(keys) -> binding`: the binding for normalized keys
+ * * `isPrefix(keys) -> boolean`: whether a binding's keys start with keys
+ * * `specs() -> [spec]`: the bound specs
+ * * `toBindings() -> {spec: binding}`
+ *
+ * `bindingConflicts(bindings) -> {conflicts: [[spec, spec]], invalid: [spec]}` checks a plain
+ * bindings object, like one a plugin merges into `defaultBindings`, and returns the pairs of
+ * specs that conflict and the specs that are not valid.
+ */
+export class Keymap {
+    name: string
+    bindings = new Map<string, binding>()
+
+    constructor(bindings: bindings = {}, name = '') {
+        this.name = name
+        for (const spec of Object.keys(bindings)) this.bind(spec, bindings[spec])
+    }
+
+    /**
+     * a keymap for a layer, converting a plain bindings object.  Conversions are reused until
+     * the object's bindings change.  Bad specs are left out and conflicts are kept like the
+     * object has them.  If the object has either, converting it calls report with the layer
+     * and its `bindingConflicts()`
+     */
+    static for(layer: Keymap | bindings, report?: (problems: bindingProblems)=> void) {
+        if (layer instanceof Keymap) return layer
+        const entries = Object.entries(layer)
+        const cached = converted.get(layer)
+
+        if (cached && sameEntries(cached.entries, entries)) return cached.keymap
+        const keymap = new Keymap()
+        const {conflicts, invalid} = bindingConflicts(layer)
+
+        if (conflicts.length || invalid.length) report?.({layer, conflicts, invalid})
+        for (const [spec, binding] of entries) {
+            if (!invalid.includes(spec)) keymap.bindings.set(normalizeKeySpec(spec), binding)
+        }
+        converted.set(layer, {entries, keymap})
+        return keymap
+    }
+
+    bind(spec: string, binding: binding, replace = false) {
+        const keys = normalizeKeySpec(spec)
+        const conflicts = this.conflicts(keys)
+
+        if (conflicts.length && !replace) {
+            throw new Error(`Key spec '${spec}' conflicts with ${conflicts.map((c)=> `'${c}'`).join(', ')}${this.name ? ` in keymap ${this.name}` : ''}`)
+        }
+        for (const conflict of conflicts) this.bindings.delete(conflict)
+        this.bindings.set(keys, binding)
+        return this
+    }
+
+    unbind(spec: string) {this.bindings.delete(normalizeKeySpec(spec))}
+
+    conflicts(spec: string) {
+        const keys = normalizeKeySpec(spec)
+
+        return this.specs().filter((bound)=> keysConflict(bound, keys))
+    }
+
+    lookup(keys: string) {return this.bindings.get(keys)}
+
+    isPrefix(keys: string) {
+        for (const bound of this.bindings.keys()) {
+            if (bound.startsWith(keys + ' ')) return true
+        }
+        return false
+    }
+
+    specs() {return Array.from(this.bindings.keys())}
+
+    toBindings() {
+        const result: bindings = {}
+
+        for (const [spec, binding] of this.bindings) result[spec] = binding
+        return result
+    }
+}
+
+export function bindingConflicts(bindings: bindings) {
+    const invalid = Object.keys(bindings).filter((spec)=> !isValidKeySpec(spec))
+    const specs = Object.keys(bindings).filter((spec)=> !invalid.includes(spec))
+    const keys = specs.map(normalizeKeySpec)
+    const conflicts: [string, string][] = []
+
+    keys.forEach((a, i)=> keys.slice(i + 1).forEach((b, j)=> {
+        if (keysConflict(a, b)) conflicts.push([specs[i], specs[i + j + 1]])
+    }))
+    return {conflicts, invalid}
+}
+
+/** bindings for every editor, after the document type's bindings */
+export const globalKeymap = new Keymap({}, 'global')
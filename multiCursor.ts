@@ -0,0 +1,187 @@
+import type {Editor} from './dist/editor.js'
+import type {DataStore, replacement} from './editor-ts.js'
+import {EditorOverlay} from './overlay.js'
+
+type cursorRange = {start: number, end: number, primary: boolean}
+
+/**
+ * MultiCursors
+ * ============
+ * Extra cursors for an editor.  The browser's selection is the primary cursor and each
+ * extra cursor is a DataStore range mark named `multicursor-N`, so extra cursors float
+ * along with changes and survive rerendering.  They are drawn in an EditorOverlay (see
+ * overlay.ts).
+ *
+ * The controller sets the editor's `multiCursors` property.  While there are extra
+ * cursors, the editor sends typing, Enter, Backspace, Delete, and paste here and they
+ * happen at every cursor as one batched `replaceText`.  LEFT and RIGHT move every cursor;
+ * other movement only moves the primary one.
+ *
+ * Alt-click adds a cursor and a plain click removes the extra cursors.
+ *
+ * Methods
+ * -------
+ * * `addCursor(start, end = start)`: add an extra cursor
+ * * `addCursorAtSelection()`: make the current selection an extra cursor (the primary cursor can then move away)
+ * * `addCursorAtNextMatch()`: add a cursor at the next occurrence of the selected text
+ * * `clear()`: remove the extra cursors
+ * * `active() -> boolean`: whether there are extra cursors
+ * * `ranges() -> [{start, end, primary}]`: every cursor, sorted, with overlapping ones merged
+ * * `replace(text)`: replace the text at every cursor
+ * * `delete(forward)`: delete every selection, or the character before or after every caret
+ * * `move(delta)`: move the extra cursors by delta characters (grapheme clusters)
+ * * `destroy()`: remove the overlay and listeners
+ */
+export class MultiCursors extends EditorOverlay {
+    names: string[] = []
+    counter = 0
+    color = '#000'
+
+    constructor(editor: Editor, data: DataStore) {
+        super(editor, data, 'multi-cursors')
+        editor.multiCursors = this
+        this.listen(data, 'load', ()=> this.clear())
+    }
+
+    active() {return this.names.length > 0}
+
+    addCursor(start: number, end = start) {
+        const name = `multicursor-${this.counter++}`
+
+        this.data.addRangeMark(name, Math.min(start, end), Math.max(start, end))
+        this.names.push(name)
+        this.scheduleUpdate()
+    }
+
+    addCursorAtSelection() {
+        const range = this.editor.getSelectedDocRange()
+
+        if (range.type !== 'None') this.addCursor(range.start, range.start + range.length)
+    }
+
+    /** add a cursor at the next occurrence of the primary selection's text after the last cursor */
+    addCursorAtNextMatch() {
+        const range = this.editor.getSelectedDocRange()
+
+        if (range.type !== 'Range') return
+        const cursors = this.ranges()
+        const taken = new Set(cursors.map((c)=> c.start))
+        const after = Math.max(...cursors.map((c)=> c.end))
+        const matches = this.data.search(this.data.getDocSubstring(range.start, range.start + range.length))
+            .filter((m)=> !taken.has(m.start))
+        const match = matches.find((m)=> m.start >= after) ?? matches[0]
+
+        if (match) {
+            this.addCursorAtSelection()
+            this.select(match.start, match.end)
+        }
+    }
+
+    clear() {
+        for (const name of this.names) this.data.removeMark(name)
+        this.names = []
+        this.overlay.innerHTML = ''
+    }
+
+    ranges(): cursorRange[] {
+        const primary = this.editor.getSelectedDocRange()
+        const ranges: cursorRange[] = []
+        const merged: cursorRange[] = []
+
+        if (primary.type !== 'None') ranges.push({start: primary.start, end: primary.start + primary.length, primary: true})
+        for (const name of this.names) {
+            const loc = this.data.getRangeMarkLocation(name)
+
+            if (loc) ranges.push({start: loc.start, end: loc.end, primary: false})
+        }
+        ranges.sort((a, b)=> a.start - b.start || a.end - b.end)
+        for (const range of ranges) {
+            const prev = merged[merged.length - 1]
+
+            if (prev && (range.start < prev.end || range.start === prev.start)) {
+                prev.end = Math.max(prev.end, range.end)
+                prev.primary ||= range.primary
+            } else merged.push(Object.assign({}, range))
+        }
+        return merged
+    }
+
+    replace(text: string) {
+        this.edit(this.ranges().map((r)=> ({start: r.start, end: r.end, text})))
+    }
+
+    delete(forward: boolean) {
+        const ranges = this.ranges().map((r)=> {
+            if (r.start < r.end) return r
+            return forward ? {start: r.start, end: this.data.graphemeBoundary(r.end, true), primary: r.primary}
+                : {start: this.data.graphemeBoundary(r.start, false), end: r.end, primary: r.primary}
+        })
+
+        this.edit(ranges.map((r, i)=> {
+            const prev = ranges[i - 1]
+
+            // carets next to each other can delete the same character
+            return {start: prev ? Math.max(r.start, prev.end) : r.start, end: r.end, text: ''}
+        }))
+    }
+
+    /** make one replacement for each of this.ranges() and leave a caret after each */
+    edit(repls: {start: number, end: number, text: string}[]) {
+        const primary = this.ranges().findIndex((r)=> r.primary)
+        const carets: number[] = []
+        let shift = 0
+
+        for (const repl of repls) {
+            carets.push(repl.start + shift + repl.text.length)
+            shift += repl.text.length - (repl.end - repl.start)
+        }
+        this.editor.editWith(()=> {
+            this.data.replaceText(repls.map((r)=> ({...r, source: 'edit'} as replacement)))
+            this.clear()
+            carets.forEach((caret, i)=> {
+                if (i === primary) this.select(caret, caret)
+                else this.addCursor(caret)
+            })
+        })
+    }
+
+    move(delta: number) {
+        const ranges = this.names.map((name)=> this.data.getRangeMarkLocation(name)).filter((loc)=> loc)
+
+        this.clear()
+        for (const {start, end} of ranges) {
+            let pos = start < end && delta > 0 ? end : start
+
+            if (start === end) for (let i = 0; i < Math.abs(delta); i++) pos = this.data.graphemeBoundary(pos, delta > 0)
+            this.addCursor(pos)
+        }
+    }
+
+    select(start: number, end: number) {
+        const node = this.editorNode
+
+        this.editor.selectDocRange({
+            type: start === end ? 'Caret' : 'Range', start, length: end - start,
+            scrollTop: node.scrollTop, scrollLeft: node.scrollLeft,
+        })
+    }
+
+    render() {
+        const origin = this.overlay.getBoundingClientRect()
+        const bounds = this.editorNode.getBoundingClientRect()
+
+        this.overlay.innerHTML = ''
+        for (const name of this.names) {
+            const loc = this.data.getRangeMarkLocation(name)
+            const caret = loc && this.drawRange(loc.start, loc.end, origin, bounds, {color: this.color, opacity: '0.2'})?.textPosition()
+
+            if (caret) this.addRect(caret, origin, bounds, {color: this.color, opacity: '1', width: 1})
+        }
+    }
+
+    destroy() {
+        super.destroy()
+        this.clear()
+        if (this.editor.multiCursors === this) this.editor.multiCursors = null
+    }
+}
@@ -0,0 +1,133 @@
+import type {Editor} from './dist/editor.js'
+import {Observable} from './editor-ts.js'
+import type {DataStore} from './editor-ts.js'
+
+/** how to draw a rectangle; width overrides the rectangle's width, like 2 for a caret */
+export type rectStyle = {color: string, opacity: string, width?: number}
+
+/**
+ * EditorOverlay
+ * =============
+ * Base class for controllers that draw over an editor, like RemoteCursors,
+ * SearchController, and MultiCursors.  They draw in an overlay element placed after the
+ * editor's node, so block DOM is never touched and `verifyNode` is unaffected.  Only text
+ * in rendered, visible blocks is drawn.
+ *
+ * The overlay updates after changes to the document, scrolling, and resizing, once the
+ * editor has rerendered its blocks.  Subclasses implement `render()` and can override
+ * `update()` to recompute what they show first.
+ *
+ * Methods
+ * -------
+ * * `render()`: redraw the overlay
+ * * `update()`: recompute and redraw (calls `render()` unless a subclass overrides it)
+ * * `scheduleUpdate()`: update after the current change finishes and the editor has rerendered its blocks
+ * * `listen(target, type, func)`: listen to an EventTarget or an Observable until `destroy()`
+ * * `domCursorFor(offset, bounds) -> DOMCursor`: a DOMCursor for a document offset, or null if its block is not visible
+ * * `drawRange(start, end, origin, bounds, style) -> DOMCursor`: draw the text from start to end and return the DOMCursor for start, or null
+ * * `addRect(rect, origin, bounds, style) -> boolean`: draw a rectangle if it is inside bounds
+ * * `destroy()`: remove the overlay and listeners
+ */
+export class EditorOverlay extends Observable {
+    editor: Editor
+    data: DataStore
+    overlay: HTMLElement
+    subscriptions: [any, string, (...args: any[])=> any][] = []
+    updatePending = false
+
+    constructor(editor: Editor, data: DataStore, className: string) {
+        super()
+        this.editor = editor
+        this.data = data
+        this.overlay = document.createElement('div')
+        this.overlay.className = className
+        this.overlay.setAttribute('contenteditable', 'false')
+        Object.assign(this.overlay.style, {
+            position: 'absolute', top: '0', left: '0', width: '0', height: '0', pointerEvents: 'none'
+        })
+        this.editorNode.after(this.overlay)
+        this.listen(data, 'change', ()=> this.scheduleUpdate())
+        this.listen(this.editorNode, 'scroll', ()=> this.scheduleUpdate())
+        this.listen(window, 'resize', ()=> this.scheduleUpdate())
+    }
+
+    get editorNode(): HTMLElement {return this.editor.node[0]}
+
+    listen(target: any, type: string, func: (...args: any[])=> any) {
+        target[target instanceof EventTarget ? 'addEventListener' : 'on'](type, func)
+        this.subscriptions.push([target, type, func])
+    }
+
+    render() {}
+
+    update() {this.render()}
+
+    scheduleUpdate() {
+        if (!this.updatePending) {
+            this.updatePending = true
+            requestAnimationFrame(()=> {
+                this.updatePending = false
+                this.update()
+            })
+        }
+    }
+
+    /**
+     * a DOMCursor for a document offset if its block is rendered and visible.  This does not
+     * call `domCursorForDocOffset()`, which would render blocks in a windowed editor
+     */
+    domCursorFor(offset: number, bounds: DOMRect) {
+        const bOff = this.data.blockOffsetForDocOffset(offset)
+        const node: HTMLElement = bOff && this.editor.options.nodeForId(bOff.block)?.[0]
+
+        if (!node?.isConnected) return null
+        const rect = node.getBoundingClientRect()
+
+        if (rect.bottom < bounds.top || rect.top > bounds.bottom) return null
+        const pos = this.editor.domCursorForText(node, 0, this.editorNode).mutable().forwardChars(bOff.offset)
+
+        return pos.isEmpty() ? null : pos
+    }
+
+    drawRange(start: number, end: number, origin: DOMRect, bounds: DOMRect, style: rectStyle) {
+        const startPos = this.domCursorFor(start, bounds)
+
+        if (startPos && start < end) {
+            const endPos = this.domCursorFor(end, bounds)
+
+            if (endPos) {
+                for (const rect of Array.from(startPos.range(endPos, null).getClientRects()) as DOMRect[]) {
+                    this.addRect(rect, origin, bounds, style)
+                }
+            }
+        }
+        return startPos
+    }
+
+    addRect(rect: DOMRect, origin: DOMRect, bounds: DOMRect, {color, opacity, width = rect.width}: rectStyle) {
+        if (rect.bottom < bounds.top || rect.top > bounds.bottom || rect.right < bounds.left || rect.left > bounds.right) {
+            return false
+        }
+        const div = document.createElement('div')
+
+        Object.assign(div.style, {
+            position: 'absolute',
+            left: `${rect.left - origin.left}px`,
+            top: `${rect.top - origin.top}px`,
+            width: `${width}px`,
+            height: `${rect.height}px`,
+            background: color,
+            opacity,
+        })
+        this.overlay.appendChild(div)
+        return true
+    }
+
+    destroy() {
+        for (const [target, type, func] of this.subscriptions) {
+            target[target instanceof EventTarget ? 'removeEventListener' : 'off'](type, func)
+        }
+        this.subscriptions = []
+        this.overlay.remove()
+    }
+}
@@ -0,0 +1,142 @@
+import type {Editor} from './dist/editor.js'
+import type {DataStore} from './editor-ts.js'
+import type {CollabClient} from './collab.js'
+import {EditorOverlay} from './overlay.js'
+
+type cursorInfo = {name?: string, color?: string}
+type remoteCursor = {site: string, name: string, color: string}
+
+const palette = ['#e6194b', '#3cb44b', '#4363d8', '#f58231', '#911eb4', '#42d4f4', '#f032e6', '#9a6324']
+
+/** a color for a site, the same at every site */
+export function siteColor(site: string) {
+    let hash = 0
+
+    for (let i = 0; i < site.length; i++) hash = (hash * 31 + site.charCodeAt(i)) | 0
+    return palette[Math.abs(hash) % palette.length]
+}
+
+/**
+ * RemoteCursors
+ * =============
+ * Shows other collaborators' carets and selections in an editor.
+ *
+ * Each remote cursor is a DataStore range mark named `cursor-SITE`, so cursors float
+ * along with `replaceText` between updates.  Cursors are drawn in an EditorOverlay (see
+ * overlay.ts).
+ *
+ * `connect(client)` shows the cursors of a CollabClient's other sites and shares the
+ * local selection with them.
+ *
+ * Methods
+ * -------
+ * * `setCursor(site, start, end, {name, color})`: show or move a site's cursor
+ * * `removeCursor(site)`: hide a site's cursor
+ * * `render()`: redraw the overlay (called after changes, scrolling, and resizing)
+ * * `connect(client) -> this`: follow a CollabClient
+ * * `destroy()`: remove the overlay and listeners
+ */
+export class RemoteCursors extends EditorOverlay {
+    cursors: {[site: string]: remoteCursor} = {}
+    client: CollabClient
+
+    constructor(editor: Editor, data: DataStore) {
+        super(editor, data, 'remote-cursors')
+        this.listen(data, 'load', ()=> this.clear())
+    }
+
+    setCursor(site: string, start: number, end: number, info: cursorInfo = {}) {
+        const cursor = this.cursors[site]
+
+        this.cursors[site] = {
+            site,
+            name: info.name ?? cursor?.name ?? site,
+            color: info.color ?? cursor?.color ?? siteColor(site),
+        }
+        this.data.addRangeMark(markName(site), start, end)
+        this.scheduleUpdate()
+    }
+
+    removeCursor(site: string) {
+        if (this.cursors[site]) {
+            delete this.cursors[site]
+            this.data.removeMark(markName(site))
+            this.scheduleUpdate()
+        }
+    }
+
+    clear() {
+        for (const site of Object.keys(this.cursors)) this.removeCursor(site)
+    }
+
+    /** the current [start, end] of a site's cursor */
+    cursorRange(site: string): [number, number] {
+        const range = this.cursors[site] && this.data.getRangeMarkLocation(markName(site))
+
+        return range ? [range.start, range.end] : null
+    }
+
+    render() {
+        const origin = this.overlay.getBoundingClientRect()
+        const bounds = this.editorNode.getBoundingClientRect()
+        const length = this.data.getLength()
+
+        this.overlay.innerHTML = ''
+        for (const site in this.cursors) {
+            const cursor = this.cursors[site]
+            const range = this.cursorRange(site)
+
+            if (!range) continue
+            const [start, end] = range.map((n)=> Math.min(n, length))
+            const startPos = this.drawRange(start, end, origin, bounds, {color: cursor.color, opacity: '0.25'})
+            const caret = startPos?.textPosition()
+
+            if (caret && this.addRect(caret, origin, bounds, {color: cursor.color, opacity: '1', width: 2})) {
+                this.addLabel(caret, origin, cursor)
+            }
+        }
+    }
+
+    addLabel(rect: DOMRect, origin: DOMRect, cursor: remoteCursor) {
+        const label = document.createElement('div')
+
+        label.className = 'remote-cursor-name'
+        label.textContent = cursor.name
+        Object.assign(label.style, {
+            position: 'absolute',
+            left: `${rect.left - origin.left}px`,
+            top: `${rect.top - origin.top}px`,
+            transform: 'translateY(-100%)',
+            background: cursor.color,
+            color: 'white',
+            fontSize: '10px',
+            padding: '0 2px',
+            whiteSpace: 'nowrap',
+        })
+        this.overlay.appendChild(label)
+    }
+
+    /** show the other sites' cursors and send this editor's selection to them */
+    connect(client: CollabClient, name?: string) {
+        this.client = client
+        this.listen(client, 'cursor', (c)=> this.setCursor(c.site, c.start, c.end, {name: c.name}))
+        this.listen(client, 'leave', ({site})=> this.removeCursor(site))
+        this.listen(document, 'selectionchange', ()=> {
+            const sel = getSelection()
+
+            if (sel.anchorNode && this.editorNode.contains(sel.anchorNode)) {
+                const range = this.editor.getSelectedDocRange()
+
+                if (range.type !== 'None') client.sendCursor(range.start, range.start + range.length, name)
+            }
+        })
+        return this
+    }
+
+    destroy() {
+        super.destroy()
+        this.clear()
+    }
+}
+
+function markName(site: string) {return `cursor-${site}`}
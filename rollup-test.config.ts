@@ -0,0 +1,18 @@
+import {readdirSync} from 'fs'
+import typescript from '@rollup/plugin-typescript'
+import coffeescript from 'rollup-plugin-coffee-script'
+import resolve from '@rollup/plugin-node-resolve';
+
+export default {
+    input: readdirSync('test').filter((file)=> file.endsWith('.test.ts')).map((file)=> `test/${file}`),
+    plugins: [typescript({tsconfig: 'test/tsconfig.json'}), coffeescript(), resolve()],
+    external: ['jsdom', /^node:/],
+    output: {
+        dir: 'dist/test',
+        format: 'esm',
+        entryFileNames: '[name].mjs',
+        chunkFileNames: '[name].mjs',
+        interop: 'esModule',
+        sourcemap: true,
+    }
+}
@@ -0,0 +1,125 @@
+import type {Editor} from './dist/editor.js'
+import type {DataStore, searchMatch, searchOptions} from './editor-ts.js'
+import {EditorOverlay} from './overlay.js'
+
+/**
+ * SearchController
+ * ================
+ * Find and replace for an editor, using `DataStore.search()`.
+ *
+ * Matches are highlighted in an EditorOverlay (see overlay.ts).  The matches are
+ * recomputed after each change to the document.
+ *
+ * The controller sets the editor's `search` property, which the `findNext` and
+ * `findPrevious` key bindings use.
+ *
+ * Events
+ * ------
+ * `matches {matches, current}`: the matches or the current match changed (current is an index or -1)
+ *
+ * Methods
+ * -------
+ * * `find(pattern, {ignoreCase, wholeWord}) -> matches`: search for pattern, starting from the caret
+ * * `next()`, `previous()`: select the next or previous match, wrapping around the document
+ * * `replace(replacement)`: replace the current match and select the next one
+ * * `replaceAll(replacement) -> count`: replace every match as one undoable change
+ * * `clear()`: stop searching and remove the highlights
+ * * `destroy()`: remove the overlay and listeners
+ *
+ * Replacing does nothing in a read-only editor.
+ */
+export class SearchController extends EditorOverlay {
+    pattern: string | RegExp = null
+    searchOptions: searchOptions = {}
+    matches: searchMatch[] = []
+    current = -1
+    color = '#ffeb3b'
+    currentColor = '#ff9800'
+
+    constructor(editor: Editor, data: DataStore) {
+        super(editor, data, 'search-matches')
+        editor.search = this
+        this.listen(data, 'load', ()=> this.scheduleUpdate())
+    }
+
+    find(pattern: string | RegExp, options: searchOptions = {}) {
+        const range = this.editor.getSelectedDocRange()
+
+        this.pattern = pattern
+        this.searchOptions = options
+        this.update(range.type === 'None' ? 0 : range.start)
+        return this.matches
+    }
+
+    clear() {
+        this.pattern = null
+        this.matches = []
+        this.current = -1
+        this.overlay.innerHTML = ''
+        this.trigger('matches', {matches: this.matches, current: this.current})
+    }
+
+    next() {return this.select(this.current + 1)}
+
+    previous() {return this.select(this.current < 0 ? this.matches.length - 1 : this.current - 1)}
+
+    /** select match i (modulo the number of matches) */
+    select(i: number) {
+        if (!this.matches.length) return null
+        const match = this.matches[this.current = (i + this.matches.length) % this.matches.length]
+        const node = this.editorNode
+
+        this.editor.selectDocRange({
+            type: 'Range', start: match.start, length: match.end - match.start,
+            scrollTop: node.scrollTop, scrollLeft: node.scrollLeft,
+        })
+        const caret = this.editor.domCursorForCaret()
+
+        if (!caret.isEmpty()) this.editor.makeElementVisible(caret.node)
+        this.render()
+        this.trigger('matches', {matches: this.matches, current: this.current})
+        return match
+    }
+
+    replace(replacement: string | ((match: searchMatch)=> string)) {
+        const match = this.matches[this.current]
+
+        if (match && !this.editor.readOnly) {
+            const length = this.data.getLength()
+
+            this.data.replaceMatches([match], replacement)
+            this.update(match.end + this.data.getLength() - length)
+            this.select(this.current)
+        }
+    }
+
+    replaceAll(replacement: string | ((match: searchMatch)=> string)) {
+        if (this.pattern == null || this.editor.readOnly) return 0
+        return this.data.replaceAll(this.pattern, replacement, this.searchOptions)
+    }
+
+    /** recompute the matches; the current match becomes the first one at or after `from` */
+    update(from = this.matches[this.current]?.start ?? 0) {
+        if (this.pattern == null) return
+        this.matches = this.data.search(this.pattern, this.searchOptions)
+        this.current = this.matches.findIndex((m)=> m.start >= from)
+        if (this.current < 0 && this.matches.length) this.current = 0
+        this.render()
+        this.trigger('matches', {matches: this.matches, current: this.current})
+    }
+
+    render() {
+        const origin = this.overlay.getBoundingClientRect()
+        const bounds = this.editorNode.getBoundingClientRect()
+
+        this.overlay.innerHTML = ''
+        this.matches.forEach((match, i)=> {
+            this.drawRange(match.start, match.end, origin, bounds, {color: i === this.current ? this.currentColor : this.color, opacity: '0.4'})
+        })
+    }
+
+    destroy() {
+        super.destroy()
+        if (this.editor.search === this) this.editor.search = null
+    }
+}
@@ -0,0 +1,149 @@
+import type {FingerTree} from './dist/fingertree.js'
+import type {block} from './editor-ts.js'
+
+type blockNode = {id: string, length: number, block: block}
+type markNode = {name: string, offset: number}
+type markInfo = {gravity: 'left' | 'right', deleteWhenRemoved: boolean}
+type rangeMarkInfo = {start: string, end: string, deleteWhenRemoved: boolean}
+
+/** the JSON form of a DocumentSnapshot (see `DataStore.snapshotFromJSON(json)`) */
+export type snapshotJSON = {
+    version: number,
+    time: number,
+    first: string,
+    blocks: block[],
+    marks: {name: string, location: number, gravity: 'left' | 'right', deleteWhenRemoved: boolean}[],
+    rangeMarks: {[name: string]: rangeMarkInfo},
+}
+
+/**
+ * DocumentSnapshot
+ * ================
+ * An immutable version of a DataStore's document, made by `DataStore.snapshot()`.
+ *
+ * Blocks are never modified once they are in a store and the block index and marks are
+ * persistent finger trees, so a snapshot just holds onto them -- taking one does not copy
+ * the document.  The block index holds the blocks themselves, so a snapshot can look up
+ * blocks without the store's block table.
+ *
+ * `JSON.stringify(snapshot)` serializes a snapshot, see `toJSON()`.
+ */
+export class DocumentSnapshot {
+    /** the store's version when the snapshot was taken */
+    version: number
+    time: number
+    first: string
+    blockIndex: FingerTree<{ids: any, length: number}, blockNode>
+    marks: FingerTree<{names: any, length: number}, markNode>
+    markInfo: {[name: string]: markInfo}
+    rangeMarks: {[name: string]: rangeMarkInfo}
+
+    constructor(props: Omit<DocumentSnapshot, 'getBlock' | 'blockList' | 'getText' | 'getLength' | 'getMarkLocation' | 'toJSON'>) {
+        Object.assign(this, props)
+    }
+
+    getBlock(id: string): block {
+        const node = this.blockIndex.split((m)=> m.ids.contains(id))[1].peekFirst()
+
+        return node?.id === id ? node.block : undefined
+    }
+
+    /** the blocks in document order */
+    blockList() {return nodes(this.blockIndex).map((n)=> n.block)}
+
+    getText() {return this.blockList().map((b)=> b.text).join('')}
+
+    getLength() {return this.blockIndex.measure().length}
+
+    getMarkLocation(name: string) {
+        if (this.markInfo[name]) {
+            const [first, rest] = this.marks.split((m)=> m.names.contains(name))
+
+            if (!rest.isEmpty()) return first.measure().length + rest.peekFirst().offset
+        }
+    }
+
+    toJSON(): snapshotJSON {
+        let location = 0
+
+        return {
+            version: this.version,
+            time: this.time,
+            first: this.first,
+            blocks: this.blockList(),
+            marks: nodes(this.marks).map(({name, offset})=> {
+                location += offset
+                return {name, location, ...this.markInfo[name]}
+            }),
+            rangeMarks: this.rangeMarks,
+        }
+    }
+}
+
+/**
+ * SnapshotHistory
+ * ===============
+ * A bounded history of snapshots, ordered by version.  DataStore adds a snapshot after
+ * every change, so `at(version)` and `atTime(time)` give the document as it was after any
+ * recent change.
+ *
+ * * `limit`: maximum number of snapshots to keep (the oldest are discarded first)
+ */
+export class SnapshotHistory {
+    snapshots: DocumentSnapshot[] = []
+    limit = 100
+
+    add(snapshot: DocumentSnapshot) {
+        this.snapshots.push(snapshot)
+        if (this.snapshots.length > this.limit) this.snapshots.splice(0, this.snapshots.length - this.limit)
+    }
+
+    clear() {this.snapshots = []}
+
+    versions() {return this.snapshots.map((s)=> s.version)}
+
+    /** the snapshot for version (the latest one at or before it) */
+    at(version: number) {return this.latest((s)=> s.version <= version)}
+
+    /** the latest snapshot taken at or before time (in milliseconds, like Date.now()) */
+    atTime(time: number) {return this.latest((s)=> s.time <= time)}
+
+    latest(test: (s: DocumentSnapshot)=> boolean) {
+        let low = 0
+        let high = this.snapshots.length
+
+        while (low < high) {
+            const mid = (low + high) >> 1
+
+            if (test(this.snapshots[mid])) low = mid + 1
+            else high = mid
+        }
+        return this.snapshots[low - 1]
+    }
+}
+
+/** `diffSnapshots(a, b) -> {adds, updates, removes}`: the blocks that changed between a and b */
+export function diffSnapshots(a: DocumentSnapshot, b: DocumentSnapshot) {
+    const old: {[id: string]: block} = {}
+    const adds: {[id: string]: block} = {}
+    const updates: {[id: string]: block} = {}
+    const removes: {[id: string]: block} = {}
+
+    for (const blk of a.blockList()) old[blk._id] = blk
+    for (const blk of b.blockList()) {
+        const prev = old[blk._id]
+
+        if (!prev) adds[blk._id] = blk
+        else if (prev !== blk) updates[blk._id] = blk
+        delete old[blk._id]
+    }
+    for (const id in old) removes[id] = old[id]
+    return {adds, updates, removes}
+}
+
+function nodes<Data>(tree: FingerTree<any, Data>) {
+    const result: Data[] = []
+
+    for (; !tree.isEmpty(); tree = tree.removeFirst()) result.push(tree.peekFirst())
+    return result
+}
@@ -0,0 +1,33 @@
+import './dom.js'
+import {test} from 'node:test'
+import assert from 'node:assert/strict'
+// load the editor before its modules, like the example does, so their import cycles resolve
+import '../dist/editor.js'
+import {lineEditor} from './editor.js'
+
+const files = [{name: 'cat.png'}] as any[]
+
+test('insertFiles inserts the text where the files went, even if the document changes first', async ()=> {
+    const {data, options, editor} = lineEditor('one\ntwo\n')
+    let stored: (text: string)=> void
+
+    options.insertFiles = ()=> new Promise((resolve)=> stored = resolve)
+    assert.equal(editor.insertFiles(files, 4), true)
+    editor.replaceDocRange({start: 0, end: 0}, 'zero\n')
+    stored('[[cat.png]]')
+    await new Promise((resolve)=> setTimeout(resolve, 0))
+    assert.equal(data.getText(), 'zero\none\n[[cat.png]]two\n')
+})
+
+test('insertFiles triggers insertFilesFailed and leaves the document alone when storing fails', async ()=> {
+    const {data, options, editor} = lineEditor('one\n')
+    const error = new Error('full')
+    const failures = []
+
+    options.insertFiles = ()=> Promise.reject(error)
+    editor.on('insertFilesFailed', (failure)=> failures.push(failure))
+    editor.insertFiles(files, 2)
+    await new Promise((resolve)=> setTimeout(resolve, 0))
+    assert.deepEqual(failures, [{files, error}])
+    assert.equal(data.getText(), 'one\n')
+})
@@ -0,0 +1,94 @@
+import './dom.js'
+import {test} from 'node:test'
+import assert from 'node:assert/strict'
+// load the editor before its modules, like the example does, so their import cycles resolve
+import '../dist/editor.js'
+import type {block, replacement} from '../editor-ts.js'
+import {LineOptions, LineStore} from './stores.js'
+
+function store(text: string) {
+    const data = new LineStore()
+
+    data.load('test', text)
+    return data
+}
+
+test('hooks see each replacement with its source and the blocks it changes', ()=> {
+    const data = store('one\ntwo\n')
+    const seen: [replacement, string[]][] = []
+
+    data.addBeforeChange((repl, oldBlocks)=> {seen.push([repl, oldBlocks.map((b: block)=> b.text)])})
+    data.replaceText({start: 2, end: 5, text: 'X', source: 'edit'})
+    assert.deepEqual(seen, [[{start: 2, end: 5, text: 'X', source: 'edit'}, ['one\n', 'two\n']]])
+    assert.equal(data.getText(), 'onXwo\n')
+})
+
+test('a hook that returns false cancels the replacement', ()=> {
+    const data = store('one\n')
+    let changes = 0
+
+    data.on('change', ()=> changes++)
+    data.addBeforeChange((repl)=> !repl.text.includes('!'))
+    data.replaceText({start: 3, end: 3, text: '!', source: 'edit'})
+    data.replaceText({start: 3, end: 3, text: '?', source: 'edit'})
+    assert.equal(data.getText(), 'one?\n')
+    assert.equal(changes, 1)
+})
+
+test('a hook can rewrite a replacement into several, which keep its source', ()=> {
+    const data = store('one two\n')
+    const sources = []
+
+    data.addBeforeChange((repl)=> repl.text !== 'X' || [{...repl, text: 'x'}, {start: 0, end: 0, text: '>'}])
+    data.on('change', ({replacement})=> replacement && sources.push(replacement.source))
+    data.replaceText({start: 4, end: 7, text: 'X', source: 'edit'})
+    assert.equal(data.getText(), '>one x\n')
+    assert.deepEqual(sources, ['edit'])
+    data.undo()
+    assert.equal(data.getText(), 'one two\n')
+})
+
+test('hooks run in order and later ones see earlier rewrites', ()=> {
+    const data = store('\n')
+    const seen = []
+    const upper = data.addBeforeChange((repl)=> ({...repl, text: repl.text.toUpperCase()}))
+
+    data.addBeforeChange((repl)=> {seen.push(repl.text)})
+    data.replaceText({start: 0, end: 0, text: 'a', source: 'edit'})
+    data.removeBeforeChange(upper)
+    data.replaceText({start: 1, end: 1, text: 'b', source: 'edit'})
+    assert.deepEqual(seen, ['A', 'b'])
+    assert.equal(data.getText(), 'Ab\n')
+})
+
+test('a hook that cancels an undo leaves it in the history', ()=> {
+    const data = store('one\n')
+    let allowUndo = false
+
+    data.replaceText({start: 3, end: 3, text: '!', source: 'edit'})
+    data.addBeforeChange((repl)=> repl.source !== 'undo' || allowUndo)
+    data.undo()
+    assert.equal(data.getText(), 'one!\n')
+    allowUndo = true
+    data.undo()
+    assert.equal(data.getText(), 'one\n')
+})
+
+test('a hook that rewrites an undo cancels it', ()=> {
+    const data = store('one\n')
+
+    data.replaceText({start: 3, end: 3, text: '!', source: 'edit'})
+    data.addBeforeChange((repl)=> repl.source !== 'undo' || {...repl, text: '?'})
+    data.undo()
+    assert.equal(data.getText(), 'one!\n')
+})
+
+test('hooks do not see loads', ()=> {
+    const options = new LineOptions()
+    let calls = 0
+
+    options.data.addBeforeChange(()=> {calls++})
+    options.load('test', 'one\n')
+    assert.equal(calls, 0)
+    assert.equal(options.data.getText(), 'one\n')
+})
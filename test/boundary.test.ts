@@ -0,0 +1,53 @@
+import './dom.js'
+import {test} from 'node:test'
+import assert from 'node:assert/strict'
+// load the editor before its modules, like the example does, so their import cycles resolve
+import '../dist/editor.js'
+import {DOMCursor, node} from '../domCursor.js'
+
+/** a div with one text node per string */
+function textNodes(...strings: string[]) {
+    const div = document.createElement('div')
+
+    for (const s of strings) div.appendChild(document.createTextNode(s))
+    document.body.appendChild(div)
+    return div
+}
+
+function cursor(div: HTMLElement, index: number, pos: number) {
+    return new DOMCursor(div.childNodes[index] as node, pos).filterTextNodes().filterParent(div as node)
+}
+
+function at(c: DOMCursor) {
+    return [Array.from(c.node.parentNode.childNodes).indexOf(c.node as ChildNode), c.pos]
+}
+
+test('forwardWord finds the end of a word split across text nodes', ()=> {
+    const div = textNodes('  hel', 'l', 'o there')
+
+    assert.deepEqual(at(cursor(div, 0, 0).forwardWord()), [2, 1])
+})
+
+test('backwardWord finds the start of a word split across text nodes', ()=> {
+    const div = textNodes('one tw', 'o', ' three')
+
+    assert.deepEqual(at(cursor(div, 2, 1).backwardWord()), [0, 4])
+})
+
+test('forwardWord gathers many text nodes to reach the next word', ()=> {
+    const div = textNodes(...Array(500).fill(' '), 'word', ' ')
+
+    assert.deepEqual(at(cursor(div, 0, 0).forwardWord()), [500, 4])
+})
+
+test('forwardSentence stops at the end of the sentence in a later text node', ()=> {
+    const div = textNodes('First ', 'sentence', '. Second one.')
+
+    assert.deepEqual(at(cursor(div, 0, 0).forwardSentence()), [2, 1])
+})
+
+test('forwardWord stops at the end of the text', ()=> {
+    const div = textNodes('  ', ' ')
+
+    assert.deepEqual(at(cursor(div, 0, 0).forwardWord()), [1, 1])
+})
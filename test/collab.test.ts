@@ -0,0 +1,123 @@
+import './dom.js'
+import {test} from 'node:test'
+import assert from 'node:assert/strict'
+// load the editor before its modules, like the example does, so their import cycles resolve
+import '../dist/editor.js'
+import {CollabClient, CollabServer, LoopbackHub, applyOp, composeOps, replacementsOp, transformOps} from '../collab.js'
+import type {replacement} from '../editor-ts.js'
+import {LineStore} from './stores.js'
+
+const doc = 'abcdefghij'
+
+/** the ops for two concurrent replacements on doc */
+const concurrent: {[name: string]: [replacement, replacement]} = {
+    'inserts at the same offset': [{start: 3, end: 3, text: 'XX'}, {start: 3, end: 3, text: 'YY'}],
+    'deletes at the same offset': [{start: 3, end: 5, text: ''}, {start: 3, end: 6, text: ''}],
+    'the same delete': [{start: 2, end: 6, text: ''}, {start: 2, end: 6, text: ''}],
+    'overlapping deletes': [{start: 2, end: 6, text: ''}, {start: 4, end: 8, text: ''}],
+    'a delete containing another': [{start: 1, end: 9, text: ''}, {start: 3, end: 5, text: ''}],
+    'an insert inside a delete': [{start: 2, end: 6, text: ''}, {start: 4, end: 4, text: 'XX'}],
+    'an insert at the start of a delete': [{start: 4, end: 4, text: 'XX'}, {start: 4, end: 7, text: ''}],
+    'an insert at the end of a delete': [{start: 2, end: 4, text: ''}, {start: 4, end: 4, text: 'XX'}],
+    'overlapping replacements': [{start: 2, end: 6, text: 'one'}, {start: 4, end: 8, text: 'two'}],
+    'replacements at the same offset': [{start: 5, end: 5, text: 'one'}, {start: 5, end: 7, text: 'two'}],
+}
+
+for (const [name, [a, b]] of Object.entries(concurrent)) {
+    test(`transformOps converges for ${name}`, ()=> {
+        for (const [opA, opB] of [[replacementsOp([a]), replacementsOp([b])], [replacementsOp([b]), replacementsOp([a])]]) {
+            const [ap, bp] = transformOps(opA, opB)
+
+            assert.equal(applyOp(applyOp(doc, opA), bp), applyOp(applyOp(doc, opB), ap))
+        }
+    })
+}
+
+test('transformOps puts the first op\'s insert first', ()=> {
+    const [a, b] = concurrent['inserts at the same offset']
+    const [ap] = transformOps(replacementsOp([a]), replacementsOp([b]))
+
+    assert.equal(applyOp(applyOp(doc, replacementsOp([b])), ap), 'abcXXYYdefghij')
+})
+
+test('transformOps keeps text deleted by both ops deleted once', ()=> {
+    const [a, b] = concurrent['overlapping deletes']
+    const [ap] = transformOps(replacementsOp([a]), replacementsOp([b]))
+
+    assert.equal(applyOp(applyOp(doc, replacementsOp([b])), ap), 'abij')
+})
+
+test('composeOps has the effect of both ops', ()=> {
+    const pairs: [replacement, replacement][] = [
+        [{start: 2, end: 2, text: 'XYZ'}, {start: 3, end: 4, text: ''}],
+        [{start: 2, end: 5, text: ''}, {start: 2, end: 2, text: 'new'}],
+        [{start: 8, end: 9, text: 'end'}, {start: 0, end: 2, text: 'start'}],
+        [{start: 2, end: 4, text: 'one'}, {start: 1, end: 6, text: 'two'}],
+    ]
+
+    for (const [a, b] of pairs) {
+        const opA = replacementsOp([a])
+        const opB = replacementsOp([b])
+
+        assert.equal(applyOp(doc, composeOps(opA, opB)), applyOp(applyOp(doc, opA), opB))
+    }
+})
+
+function session(text: string, sites: number) {
+    const hub = new LoopbackHub()
+    const server = new CollabServer(hub.serverTransport(), text)
+    const stores: LineStore[] = []
+
+    for (let i = 0; i < sites; i++) {
+        const data = new LineStore()
+
+        new CollabClient(data, hub.clientTransport(), `site${i}`).join()
+        stores.push(data)
+    }
+    hub.flush()
+    return {hub, server, stores}
+}
+
+test('clients and the server converge after concurrent edits', ()=> {
+    const {hub, server, stores: [one, two]} = session('one\ntwo\nthree\n', 2)
+
+    one.replaceText({start: 4, end: 4, text: 'ONE', source: 'edit'})
+    two.replaceText({start: 4, end: 4, text: 'TWO', source: 'edit'})
+    one.replaceText({start: 2, end: 9, text: '', source: 'edit'})
+    two.replaceText({start: 5, end: 12, text: 'x', source: 'edit'})
+    hub.flush()
+    assert.equal(one.getText(), server.text)
+    assert.equal(two.getText(), server.text)
+})
+
+test('clients converge when edits arrive while others are pending', ()=> {
+    const {hub, server, stores: [one, two, three]} = session('abcdefghij\n', 3)
+
+    one.replaceText({start: 3, end: 6, text: '', source: 'edit'})
+    hub.deliverNext()
+    two.replaceText({start: 3, end: 3, text: 'XX', source: 'edit'})
+    three.replaceText({start: 4, end: 8, text: 'Y', source: 'edit'})
+    hub.deliverNext()
+    two.replaceText({start: 0, end: 1, text: '', source: 'edit'})
+    hub.flush()
+    for (const data of [one, two, three]) assert.equal(data.getText(), server.text)
+})
+
+test('the server sends the document to a site that edits at an unknown revision', ()=> {
+    const hub = new LoopbackHub()
+    const server = new CollabServer(hub.serverTransport(), 'text\n')
+    const data = new LineStore()
+    const client = new CollabClient(data, hub.clientTransport(), 'site')
+    const states = []
+
+    client.on('state', (state)=> states.push(state))
+    client.join()
+    hub.flush()
+    client.revision = 5
+    data.replaceText({start: 0, end: 0, text: 'lost ', source: 'edit'})
+    assert.doesNotThrow(()=> hub.flush())
+    assert.equal(server.revision, 0)
+    assert.equal(states.length, 2)
+    assert.equal(data.getText(), 'text\n')
+    assert.equal(client.hasPendingEdits(), false)
+})
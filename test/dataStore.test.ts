@@ -0,0 +1,32 @@
+import './dom.js'
+import {test} from 'node:test'
+import assert from 'node:assert/strict'
+// load the editor before its modules, like the example does, so their import cycles resolve
+import '../dist/editor.js'
+import {LineStore} from './stores.js'
+
+test('blockOffsetForDocOffset and docOffsetForBlockOffset convert offsets both ways', ()=> {
+    const data = new LineStore()
+
+    data.load('test', 'one\nthree\nfive\n')
+    const [one, three, five] = data.blockList()
+
+    assert.deepEqual(data.blockOffsetForDocOffset(0), {block: one._id, offset: 0})
+    assert.deepEqual(data.blockOffsetForDocOffset(6), {block: three._id, offset: 2})
+    assert.deepEqual(data.blockOffsetForDocOffset(10), {block: five._id, offset: 0})
+    for (let offset = 0; offset < data.getLength(); offset++) {
+        const {block, offset: blockOffset} = data.blockOffsetForDocOffset(offset)
+
+        assert.equal(data.docOffsetForBlockOffset(block, blockOffset), offset)
+    }
+})
+
+test('blockOffsetForDocOffset gives the end of the last block for the end of the document', ()=> {
+    const data = new LineStore()
+
+    data.load('test', 'one\nthree')
+    const [, three] = data.blockList()
+
+    assert.deepEqual(data.blockOffsetForDocOffset(9), {block: three._id, offset: 5})
+    assert.equal(data.docOffsetForBlockOffset(three._id, 5), 9)
+})
@@ -0,0 +1,17 @@
+import {JSDOM} from 'jsdom'
+import {createRequire} from 'node:module'
+
+// the editor's modules use the DOM when they load, so this must be imported first
+const {window} = new JSDOM('<!DOCTYPE html><html><body></body></html>', {pretendToBeVisual: true})
+
+for (const name of ['window', 'document', 'Node', 'Element', 'HTMLElement', 'Text', 'Range', 'Event', 'EventTarget', 'KeyboardEvent', 'InputEvent', 'NodeFilter', 'DOMParser', 'getSelection']) {
+    globalThis[name] = name === 'getSelection' ? window.getSelection.bind(window) : window[name]
+}
+// jsdom has no CaretPosition, which DOMCursor checks for
+(globalThis as any).CaretPosition ??= class CaretPosition {}
+// jsdom has no layout, so ranges have no rectangles
+window.Range.prototype.getClientRects ??= ()=> [] as any
+window.Range.prototype.getBoundingClientRect ??= ()=> ({top: 0, bottom: 0, left: 0, right: 0, width: 0, height: 0}) as DOMRect
+globalThis.requestAnimationFrame ??= (func)=> setTimeout(func, 0) as any
+// docOrg expects the example page's js-yaml global
+(globalThis as any).jsyaml ??= createRequire(import.meta.url)('../../examples/js-yaml.js')
@@ -0,0 +1,34 @@
+import {DataStoreEditingOptions, LeisureEditCore, defaultBindings, escapeHtml, $} from '../dist/editor.js'
+import type {DataStore, block} from '../editor-ts.js'
+import {LineStore} from './stores.js'
+
+/** an editor on a LineStore (or another store) holding text, with the caret at caret */
+export function lineEditor(text: string, caret = 0, data: DataStore = new LineStore()) {
+    const node = document.createElement('div')
+
+    document.body.replaceChildren(node)
+    const options = new DataStoreEditingOptions(data)
+
+    options.bindings = defaultBindings
+    options.renderBlock = (block: block)=> [`<span id='${block._id}' data-block>${escapeHtml(block.text)}</span>`, block.next]
+    data.on('load', ()=> options.rerenderAll())
+    const editor = new LeisureEditCore($(node), options)
+
+    options.load('test', text)
+    editor.selectDocRange({type: 'Caret', start: caret, length: 0})
+    return {node, data, options, editor, caret: ()=> editor.getSelectedDocRange().start}
+}
+
+/** dispatch a keydown on node and return whether it was not cancelled */
+export function keyDown(node: Element, init: KeyboardEventInit & {keyCode?: number}) {
+    return node.dispatchEvent(new KeyboardEvent('keydown', {bubbles: true, cancelable: true, ...init}))
+}
+
+/** type characters with keydown and keypress events, like a keyboard */
+export function typeText(node: Element, text: string) {
+    for (const char of text) {
+        if (keyDown(node, {key: char, keyCode: char.toUpperCase().charCodeAt(0)})) {
+            node.dispatchEvent(new KeyboardEvent('keypress', {bubbles: true, cancelable: true, key: char, charCode: char.charCodeAt(0)} as KeyboardEventInit))
+        }
+    }
+}
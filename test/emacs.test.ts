@@ -0,0 +1,86 @@
+import './dom.js'
+import {test} from 'node:test'
+import assert from 'node:assert/strict'
+// load the editor before its modules, like the example does, so their import cycles resolve
+import {emacsBindings, killRing} from '../dist/editor.js'
+import {keyDown, lineEditor} from './editor.js'
+
+const SPACE = 32
+
+function emacsEditor(text: string, caret: number) {
+    const editor = lineEditor(text)
+
+    killRing.entries = []
+    editor.options.bindings = emacsBindings
+    editor.editor.selectDocRange({type: 'Caret', start: caret, length: 0})
+    return {...editor, ctrl: (key: string)=> keyDown(editor.node, {keyCode: key.charCodeAt(0), ctrlKey: true}),
+        meta: (key: string)=> keyDown(editor.node, {keyCode: key.charCodeAt(0), altKey: true})}
+}
+
+test('C-A and C-E move to the ends of the line', ()=> {
+    const {ctrl, caret} = emacsEditor('hello big world\nsecond line\n\nlast', 8)
+
+    ctrl('E')
+    assert.equal(caret(), 15)
+    ctrl('A')
+    assert.equal(caret(), 0)
+})
+
+test('consecutive C-Ks kill the rest of the line and its newline as one kill', ()=> {
+    const {ctrl, data} = emacsEditor('hello big world\nsecond line\n', 6)
+
+    ctrl('K')
+    assert.equal(data.getText(), 'hello \nsecond line\n')
+    ctrl('K')
+    assert.equal(data.getText(), 'hello second line\n')
+    assert.deepEqual(killRing.entries, ['big world\n'])
+})
+
+test('C-Y yanks the last kill and M-Y replaces it with earlier kills', ()=> {
+    const {ctrl, meta, data, editor} = emacsEditor('one two three\n', 0)
+
+    editor.selectDocRange({type: 'Range', start: 0, length: 4})
+    ctrl('W')
+    editor.selectDocRange({type: 'Range', start: 0, length: 4})
+    ctrl('W')
+    assert.equal(data.getText(), 'three\n')
+    assert.deepEqual(killRing.entries, ['two ', 'one '])
+    ctrl('Y')
+    assert.equal(data.getText(), 'two three\n')
+    meta('Y')
+    assert.equal(data.getText(), 'one three\n')
+    meta('Y')
+    assert.equal(data.getText(), 'two three\n')
+})
+
+test('C-SPC sets a mark that C-W kills to and C-X C-X exchanges with point', ()=> {
+    const {node, ctrl, meta, data, caret} = emacsEditor('hello big world\n', 6)
+
+    keyDown(node, {keyCode: SPACE, ctrlKey: true})
+    assert.equal(data.getMarkLocation('emacs-mark'), 6)
+    ctrl('E')
+    ctrl('X')
+    ctrl('X')
+    assert.equal(caret(), 6)
+    assert.equal(data.getMarkLocation('emacs-mark'), 15)
+    meta('W')
+    assert.deepEqual(killRing.entries, ['big world'])
+    ctrl('W')
+    assert.equal(data.getText(), 'hello \n')
+})
+
+test('C-G cancels a pending chord', ()=> {
+    const {ctrl, caret} = emacsEditor('hello\n', 0)
+
+    ctrl('X')
+    ctrl('G')
+    ctrl('E')
+    assert.equal(caret(), 5)
+})
+
+test('C-D deletes the next character', ()=> {
+    const {ctrl, data} = emacsEditor('he\u{1F600}llo\n', 2)
+
+    ctrl('D')
+    assert.equal(data.getText(), 'hello\n')
+})
@@ -0,0 +1,79 @@
+import './dom.js'
+import {test} from 'node:test'
+import assert from 'node:assert/strict'
+// load the editor before its modules, like the example does, so their import cycles resolve
+import '../dist/editor.js'
+import {nextGrapheme, previousGrapheme} from '../domCursor.js'
+import {LineStore} from './stores.js'
+
+const smile = '\u{1F600}'
+const family = '\u{1F468}\u200D\u{1F469}\u200D\u{1F467}'
+const flag = '\u{1F1EF}\u{1F1F5}'
+const accented = 'e\u0301'
+
+test('nextGrapheme steps over surrogate pairs', ()=> {
+    assert.equal(nextGrapheme(`a${smile}b`, 1), 3)
+    assert.equal(nextGrapheme(`a${smile}b`, 2), 3)
+    assert.equal(nextGrapheme(`a${flag}b`, 1), 5)
+})
+
+test('nextGrapheme steps over ZWJ sequences', ()=> {
+    assert.equal(family.length, 8)
+    assert.equal(nextGrapheme(`${family}x`, 0), 8)
+    assert.equal(nextGrapheme(`${family}x`, 3), 8)
+})
+
+test('nextGrapheme steps over combining marks', ()=> {
+    assert.equal(nextGrapheme(`${accented}x`, 0), 2)
+    assert.equal(nextGrapheme('a\u0323\u0302b', 0), 3)
+})
+
+test('nextGrapheme stops at the end of the text', ()=> {
+    assert.equal(nextGrapheme('ab', 2), 2)
+    assert.equal(nextGrapheme('', 0), 0)
+})
+
+test('previousGrapheme steps over surrogate pairs', ()=> {
+    assert.equal(previousGrapheme(`a${smile}b`, 3), 1)
+    assert.equal(previousGrapheme(`a${smile}b`, 2), 1)
+    assert.equal(previousGrapheme(`a${flag}b`, 5), 1)
+})
+
+test('previousGrapheme steps over ZWJ sequences', ()=> {
+    assert.equal(previousGrapheme(`x${family}`, 9), 1)
+    assert.equal(previousGrapheme(`x${family}`, 5), 1)
+})
+
+test('previousGrapheme steps over combining marks', ()=> {
+    assert.equal(previousGrapheme(`x${accented}`, 3), 1)
+    assert.equal(previousGrapheme('a\u0323\u0302b', 3), 0)
+})
+
+test('previousGrapheme stops at the start of the text', ()=> {
+    assert.equal(previousGrapheme('ab', 0), 0)
+})
+
+test('DataStore.graphemeBoundary steps by grapheme cluster across blocks', ()=> {
+    const data = new LineStore()
+    const text = `a${smile}\n${accented}${family}\n`
+
+    data.load('test', text)
+    assert.equal(data.getText(), text)
+    assert.equal(data.graphemeBoundary(1, true), 3)
+    assert.equal(data.graphemeBoundary(3, false), 1)
+    assert.equal(data.graphemeBoundary(3, true), 4)
+    assert.equal(data.graphemeBoundary(4, false), 3)
+    assert.equal(data.graphemeBoundary(4, true), 6)
+    assert.equal(data.graphemeBoundary(6, true), 14)
+    assert.equal(data.graphemeBoundary(14, false), 6)
+    assert.equal(data.graphemeBoundary(6, false), 4)
+})
+
+test('DataStore.graphemeBoundary stops at the ends of the document', ()=> {
+    const data = new LineStore()
+
+    data.load('test', `${smile}\n`)
+    assert.equal(data.graphemeBoundary(0, false), 0)
+    assert.equal(data.graphemeBoundary(3, true), 3)
+    assert.equal(data.graphemeBoundary(2, true), 3)
+})
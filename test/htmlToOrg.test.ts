@@ -0,0 +1,52 @@
+import './dom.js'
+import {test} from 'node:test'
+import assert from 'node:assert/strict'
+// load the editor before its modules, like the example does, so their import cycles resolve
+import '../dist/editor.js'
+import {htmlToOrg} from '../dist/docOrg.js'
+
+test('headings become headlines', ()=> {
+    assert.equal(htmlToOrg('<h1>Title</h1><h3>Sub <i>part</i></h3>'), '* Title\n\n*** Sub /part/\n')
+})
+
+test('paragraphs are separated by blank lines', ()=> {
+    assert.equal(htmlToOrg('<p>one\ntwo</p><p>three</p>'), 'one two\n\nthree\n')
+})
+
+test('lists become nested list items', ()=> {
+    assert.equal(htmlToOrg('<ul><li>a<ol><li>b</li><li>c</li></ol></li><li>d</li></ul>'),
+        '- a\n  1. b\n  2. c\n- d\n')
+})
+
+test('links become org links', ()=> {
+    assert.equal(htmlToOrg('<a href="http://x.org">site</a> <a href="http://y.org">http://y.org</a> <a>plain</a>'),
+        '[[http://x.org][site]] [[http://y.org]] plain')
+})
+
+test('tables become org tables', ()=> {
+    assert.equal(htmlToOrg('<table><tr><th>a</th><th>b</th></tr><tr><td>1</td><td>2</td></tr></table>'),
+        '| a | b |\n| 1 | 2 |\n')
+})
+
+test('inline tags become org markup outside their whitespace', ()=> {
+    assert.equal(htmlToOrg('<b>bold </b>x <em>it</em> <u>u</u> <code>c</code> <del>gone</del>'),
+        '*bold* x /it/ _u_ ~c~ +gone+')
+})
+
+test('styled spans become org markup', ()=> {
+    assert.equal(htmlToOrg('<span style="font-weight: 700">b</span> <span style="font-style: italic">i</span> <span style="text-decoration: line-through">s</span>'),
+        '*b* /i/ +s+')
+})
+
+test('a normal weight b, like Google Docs uses, is not bold', ()=> {
+    assert.equal(htmlToOrg('<b style="font-weight: normal"><p>text</p></b>'), 'text\n')
+})
+
+test('pre and blockquote become org blocks', ()=> {
+    assert.equal(htmlToOrg('<pre>x = 1\ny = 2</pre><blockquote><p>said</p></blockquote>'),
+        '#+BEGIN_SRC\nx = 1\ny = 2\n#+END_SRC\n\n#+BEGIN_QUOTE\nsaid\n#+END_QUOTE\n')
+})
+
+test('scripts and styles are dropped', ()=> {
+    assert.equal(htmlToOrg('<style>p {}</style><script>alert(1)</script><p>kept</p>'), 'kept\n')
+})
@@ -0,0 +1,83 @@
+import './dom.js'
+import {test} from 'node:test'
+import assert from 'node:assert/strict'
+// load the editor before its modules, like the example does, so their import cycles resolve
+import '../dist/editor.js'
+import {orgInputRules} from '../dist/docOrg.js'
+import type {inputRule} from '../editor-ts.js'
+import {lineEditor} from './editor.js'
+
+/** an editor with rules and a function that types text at the caret as the keyboard would */
+function ruleEditor(text: string, caret: number, rules: inputRule[] = orgInputRules) {
+    const editor = lineEditor(text, caret)
+
+    editor.options.inputRules = rules
+    return {...editor, type: (typed: string)=> {
+        for (const char of typed) editor.editor.replaceDocRange({start: editor.caret(), end: editor.caret()}, char, true)
+    }}
+}
+
+test('dashes become en and em dashes in the same change as the typing', ()=> {
+    const {data, type} = ruleEditor('a\n', 1)
+
+    type(' x--')
+    assert.equal(data.getText(), 'a x–\n')
+    type('-')
+    assert.equal(data.getText(), 'a x—\n')
+    data.undo()
+    assert.equal(data.getText(), 'a x–\n')
+})
+
+test('emphasis markers get a closing marker that typing steps over', ()=> {
+    const {data, caret, type} = ruleEditor('see \n', 4)
+
+    type('*')
+    assert.equal(data.getText(), 'see **\n')
+    assert.equal(caret(), 5)
+    type('b*')
+    assert.equal(data.getText(), 'see *b*\n')
+    assert.equal(caret(), 7)
+})
+
+test('a space between an empty pair of markers removes the closing one', ()=> {
+    const {data, caret, type} = ruleEditor('see \n', 4)
+
+    type('* ')
+    assert.equal(data.getText(), 'see * \n')
+    assert.equal(caret(), 6)
+})
+
+test('ENTER in a list item starts the next item', ()=> {
+    const {data, caret, type} = ruleEditor('  9. [X] done\n', 13)
+
+    type('\n')
+    assert.equal(data.getText(), '  9. [X] done\n  10. [ ] \n')
+    assert.equal(caret(), 24)
+})
+
+test('ENTER in an empty list item removes its bullet', ()=> {
+    const {data, type} = ruleEditor('- a\n- \n', 6)
+
+    type('\n')
+    assert.equal(data.getText(), '- a\n\n')
+})
+
+test('text that is not typed skips the rules', ()=> {
+    const {data, editor, caret} = ruleEditor('a\n', 1)
+
+    editor.replaceDocRange({start: caret(), end: caret()}, ' x--')
+    assert.equal(data.getText(), 'a x--\n')
+})
+
+test('the first rule whose handler returns text wins', ()=> {
+    const calls = []
+    const {data, type} = ruleEditor('\n', 0, [
+        {match: /(\w+)!$/, handler: (m)=> {calls.push(m[1]); return null}},
+        {match: /(\w+)!$/, handler: (m, {before, after})=> `${m[1].toUpperCase()}[${before}|${after}]`},
+        {match: /!$/, handler: ()=> 'never'},
+    ])
+
+    type('hi!')
+    assert.deepEqual(calls, ['hi'])
+    assert.equal(data.getText(), 'HI[hi!|]\n')
+})
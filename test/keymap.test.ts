@@ -0,0 +1,82 @@
+import './dom.js'
+import {test} from 'node:test'
+import assert from 'node:assert/strict'
+// load the editor before its modules, like the example does, so their import cycles resolve
+import '../dist/editor.js'
+import {Keymap, bindingConflicts, isValidKeySpec, normalizeKeySpec, parseKeySpec} from '../keymap.js'
+import {keyDown, lineEditor} from './editor.js'
+
+const noop = ()=> {}
+
+test('parseKeySpec reads the modifiers and key of each key', ()=> {
+    assert.deepEqual(parseKeySpec('C-x M-S-f'), [
+        {key: 'X', shift: false, ctrl: true, meta: false},
+        {key: 'F', shift: true, ctrl: false, meta: true},
+    ])
+    assert.deepEqual(parseKeySpec('SPC'), [{key: 'SPC', shift: false, ctrl: false, meta: false}])
+})
+
+test('parseKeySpec rejects empty specs, unknown keys, and repeated modifiers', ()=> {
+    assert.throws(()=> parseKeySpec('  '), /Empty key spec/)
+    assert.throws(()=> parseKeySpec('C-FOO'), /Bad key 'C-FOO'/)
+    assert.throws(()=> parseKeySpec('C-C-A'), /Repeated modifier/)
+    assert.equal(isValidKeySpec('C-FOO'), false)
+    assert.equal(isValidKeySpec('C-X C-F'), true)
+})
+
+test('normalizeKeySpec orders modifiers like the editor reports them', ()=> {
+    assert.equal(normalizeKeySpec('M-C-S-z'), 'S-C-M-Z')
+    assert.equal(normalizeKeySpec(' C-x   C-s '), 'C-X C-S')
+})
+
+test('bind rejects specs that conflict with bound ones unless told to replace them', ()=> {
+    const keymap = new Keymap({'C-X C-F': noop}, 'files')
+
+    assert.throws(()=> keymap.bind('C-x', noop), /'C-x' conflicts with 'C-X C-F' in keymap files/)
+    assert.throws(()=> keymap.bind('C-X C-F C-G', noop), /conflicts/)
+    assert.deepEqual(keymap.conflicts('S-C-x'), [])
+    keymap.bind('C-X', 'save', true)
+    assert.deepEqual(keymap.toBindings(), {'C-X': 'save'})
+})
+
+test('lookup and isPrefix use normalized keys', ()=> {
+    const keymap = new Keymap({'S-C-x C-f': 'open'})
+
+    assert.equal(keymap.lookup('S-C-X C-F'), 'open')
+    assert.equal(keymap.isPrefix('S-C-X'), true)
+    assert.equal(keymap.isPrefix('C-X'), false)
+    keymap.unbind('C-S-X C-F')
+    assert.deepEqual(keymap.specs(), [])
+})
+
+test('bindingConflicts finds conflicting pairs and bad specs', ()=> {
+    assert.deepEqual(bindingConflicts({'C-X': noop, 'C-X C-S': noop, 'S-C-x': noop, 'C-x': noop, 'C-NOPE': noop}), {
+        conflicts: [['C-X', 'C-X C-S'], ['C-X', 'C-x'], ['C-X C-S', 'C-x']],
+        invalid: ['C-NOPE'],
+    })
+})
+
+test('Keymap.for reports problems once per conversion and leaves bad specs out', ()=> {
+    const layer = {'C-X': 'a', 'C-X C-S': 'b', 'C-NOPE': 'c'}
+    const reports = []
+    const keymap = Keymap.for(layer, (problems)=> reports.push(problems))
+
+    assert.equal(Keymap.for(layer, (problems)=> reports.push(problems)), keymap)
+    assert.deepEqual(reports, [{layer, conflicts: [['C-X', 'C-X C-S']], invalid: ['C-NOPE']}])
+    assert.deepEqual(keymap.specs(), ['C-X', 'C-X C-S'])
+    layer['C-Y'] = 'd'
+    assert.notEqual(Keymap.for(layer), keymap)
+    assert.equal(Keymap.for(keymap), keymap)
+})
+
+test('the editor triggers bindingProblems for a bad bindings layer', ()=> {
+    const {node, editor} = lineEditor('text\n')
+    const reports = []
+    let ran = 0
+
+    editor.on('bindingProblems', (problems)=> reports.push(problems))
+    editor.pushKeymap({'C-B': ()=> ran++, 'C-BAD': noop})
+    keyDown(node, {keyCode: 'B'.charCodeAt(0), ctrlKey: true})
+    assert.equal(ran, 1)
+    assert.deepEqual(reports.map((r)=> r.invalid), [['C-BAD']])
+})
@@ -0,0 +1,108 @@
+import './dom.js'
+import {test} from 'node:test'
+import assert from 'node:assert/strict'
+// load the editor before its modules, like the example does, so their import cycles resolve
+import '../dist/editor.js'
+import {LineStore} from './stores.js'
+
+function store(text = 'hello world\n') {
+    const data = new LineStore()
+
+    data.load('test', text)
+    return data
+}
+
+function replace(data: LineStore, start: number, end: number, text: string) {
+    data.replaceText({start, end, text, source: 'edit'})
+}
+
+test('point marks stay before or move after text inserted at them by gravity', ()=> {
+    const data = store()
+
+    data.addMark('left', 5)
+    data.addMark('right', 5, {gravity: 'right'})
+    replace(data, 5, 5, ',')
+    assert.equal(data.getMarkLocation('left'), 5)
+    assert.equal(data.getMarkLocation('right'), 6)
+})
+
+test('marks after a replacement shift and marks inside it collapse', ()=> {
+    const data = store()
+
+    data.addMark('before', 2)
+    data.addMark('after', 8)
+    data.addMark('inside', 4)
+    data.addMark('insideRight', 4, {gravity: 'right'})
+    replace(data, 3, 6, 'XY')
+    assert.equal(data.getMarkLocation('before'), 2)
+    assert.equal(data.getMarkLocation('after'), 7)
+    assert.equal(data.getMarkLocation('inside'), 3)
+    assert.equal(data.getMarkLocation('insideRight'), 5)
+})
+
+test('text inserted at the ends of a range goes inside only inclusive ranges', ()=> {
+    const data = store()
+
+    data.addRangeMark('exclusive', 6, 11)
+    data.addRangeMark('inclusive', 6, 11, {inclusive: true})
+    replace(data, 6, 6, 'big ')
+    replace(data, 15, 15, '!')
+    assert.deepEqual(data.getRangeMarkLocation('exclusive'), {start: 10, end: 15})
+    assert.deepEqual(data.getRangeMarkLocation('inclusive'), {start: 6, end: 16})
+})
+
+test('deleting text inside a range shrinks it', ()=> {
+    const data = store()
+
+    data.addRangeMark('range', 2, 9)
+    replace(data, 4, 6, '')
+    assert.deepEqual(data.getRangeMarkLocation('range'), {start: 2, end: 7})
+})
+
+test('an empty exclusive range stays empty when text is inserted into it', ()=> {
+    const data = store()
+
+    data.addRangeMark('empty', 4, 4)
+    replace(data, 4, 4, 'abc')
+    assert.deepEqual(data.getRangeMarkLocation('empty'), {start: 4, end: 4})
+})
+
+test('marks with deleteWhenRemoved go away with their text', ()=> {
+    const data = store()
+
+    data.addRangeMark('gone', 2, 5, {deleteWhenRemoved: true})
+    data.addRangeMark('kept', 6, 9, {deleteWhenRemoved: true})
+    data.addMark('point', 7, {deleteWhenRemoved: true})
+    data.addMark('edge', 2, {deleteWhenRemoved: true})
+    replace(data, 2, 5, '')
+    assert.equal(data.getRangeMarkLocation('gone'), undefined)
+    assert.equal(data.getMarkLocation('edge'), 2)
+    replace(data, 3, 5, '')
+    assert.deepEqual(data.getRangeMarkLocation('kept'), {start: 3, end: 4})
+    assert.equal(data.getMarkLocation('point'), undefined)
+})
+
+test('marksInRange finds point marks inside and range marks overlapping a range', ()=> {
+    const data = store()
+
+    data.addMark('outside', 1)
+    data.addMark('point', 4)
+    data.addRangeMark('overlapping', 0, 3)
+    data.addRangeMark('after', 8, 10)
+    assert.deepEqual(data.marksInRange(3, 6), [
+        {name: 'overlapping', start: 0, end: 3, range: true},
+        {name: 'point', start: 4, end: 4, range: false},
+    ])
+})
+
+test('marks float through undo and redo', ()=> {
+    const data = store()
+
+    data.addMark('mark', 8)
+    replace(data, 0, 0, 'XXX')
+    assert.equal(data.getMarkLocation('mark'), 11)
+    data.undo()
+    assert.equal(data.getMarkLocation('mark'), 8)
+    data.redo()
+    assert.equal(data.getMarkLocation('mark'), 11)
+})
@@ -0,0 +1,88 @@
+import './dom.js'
+import {test} from 'node:test'
+import assert from 'node:assert/strict'
+// load the editor before its modules, like the example does, so their import cycles resolve
+import '../dist/editor.js'
+import {MultiCursors} from '../multiCursor.js'
+import {keyDown, lineEditor, typeText} from './editor.js'
+
+const BACKSPACE = 8
+const ESCAPE = 27
+const LEFT = 37
+const DELETE = 46
+
+function table() {
+    const editor = lineEditor('| a | b |\n| c | d |\n| e | f |\n', 2)
+    const cursors = new MultiCursors(editor.editor, editor.data)
+
+    cursors.addCursor(12)
+    cursors.addCursor(22)
+    return {...editor, cursors, carets: ()=> cursors.ranges().map((r)=> r.start)}
+}
+
+test('typing happens at every cursor as one change', ()=> {
+    const {node, data, cursors, carets} = table()
+    let changes = 0
+
+    data.on('change', ()=> changes++)
+    typeText(node, 'xy')
+    assert.equal(data.getText(), '| xya | b |\n| xyc | d |\n| xye | f |\n')
+    assert.equal(changes, 2)
+    assert.deepEqual(carets(), [4, 16, 28])
+    assert.equal(node.textContent, data.getText())
+    cursors.destroy()
+})
+
+test('backspace, delete, and arrows work at every cursor', ()=> {
+    const {node, data, editor, cursors, carets} = table()
+
+    typeText(node, 'xy')
+    keyDown(node, {keyCode: BACKSPACE})
+    assert.equal(data.getText(), '| xa | b |\n| xc | d |\n| xe | f |\n')
+    assert.deepEqual(carets(), [3, 14, 25])
+    keyDown(node, {keyCode: LEFT})
+    // the browser moves the primary caret, but jsdom doesn't
+    assert.deepEqual(carets(), [3, 13, 24])
+    editor.selectDocRange({type: 'Caret', start: 2, length: 0})
+    keyDown(node, {keyCode: DELETE})
+    assert.equal(data.getText(), '| a | b |\n| c | d |\n| e | f |\n')
+    typeText(node, 'Q')
+    assert.equal(data.getText(), '| Qa | b |\n| Qc | d |\n| Qe | f |\n')
+    data.undo()
+    assert.equal(data.getText(), '| a | b |\n| c | d |\n| e | f |\n')
+    data.check()
+    cursors.destroy()
+})
+
+test('escape removes the extra cursors', ()=> {
+    const {node, cursors} = table()
+
+    assert.equal(cursors.active(), true)
+    keyDown(node, {keyCode: ESCAPE})
+    assert.equal(cursors.active(), false)
+    cursors.destroy()
+})
+
+test('overlapping cursors are merged', ()=> {
+    const {editor, data} = lineEditor('abcdefgh\n')
+    const cursors = new MultiCursors(editor, data)
+
+    editor.selectDocRange({type: 'Range', start: 1, length: 3})
+    cursors.addCursor(3, 6)
+    cursors.addCursor(7)
+    assert.deepEqual(cursors.ranges(), [{start: 1, end: 6, primary: true}, {start: 7, end: 7, primary: false}])
+    cursors.destroy()
+})
+
+test('control-D adds a cursor at the next match of the selection', ()=> {
+    const {node, editor, data} = lineEditor('dog cat dog cat dog cat\n')
+    const cursors = new MultiCursors(editor, data)
+
+    editor.selectDocRange({type: 'Range', start: 4, length: 3})
+    keyDown(node, {keyCode: 68, ctrlKey: true})
+    keyDown(node, {keyCode: 68, ctrlKey: true})
+    assert.deepEqual(cursors.ranges().map((r)=> [r.start, r.end]), [[4, 7], [12, 15], [20, 23]])
+    typeText(node, 'X')
+    assert.equal(data.getText(), 'dog X dog X dog X\n')
+    cursors.destroy()
+})
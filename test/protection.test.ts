@@ -0,0 +1,95 @@
+import './dom.js'
+import {test} from 'node:test'
+import assert from 'node:assert/strict'
+// load the editor before its modules, like the example does, so their import cycles resolve
+import '../dist/editor.js'
+import {keyDown, lineEditor, typeText} from './editor.js'
+import {LineStore} from './stores.js'
+
+const BACKSPACE = 8
+
+function store(text: string) {
+    const data = new LineStore()
+    const rejections = []
+
+    data.load('test', text)
+    data.on('rejected', (rejection)=> rejections.push(rejection))
+    return {data, rejections}
+}
+
+test('edits that change protected text are rejected', ()=> {
+    const {data, rejections} = store('one two three\n')
+
+    data.protect('two', 4, 7)
+    data.replaceText({start: 5, end: 6, text: 'X', source: 'edit'})
+    data.replaceText({start: 2, end: 5, text: '', source: 'edit'})
+    data.replaceText({start: 5, end: 5, text: 'X', source: 'edit'})
+    assert.equal(data.getText(), 'one two three\n')
+    assert.deepEqual(rejections.map((r)=> [r.protections, r.clipped]), [[['two'], []], [['two'], []], [['two'], []]])
+})
+
+test('text can be inserted at the edges of a protected range', ()=> {
+    const {data, rejections} = store('one two three\n')
+
+    data.protect('two', 4, 7)
+    data.replaceText({start: 4, end: 4, text: '<', source: 'edit'})
+    data.replaceText({start: 8, end: 8, text: '>', source: 'edit'})
+    assert.equal(data.getText(), 'one <two> three\n')
+    assert.deepEqual(data.getRangeMarkLocation('two'), {start: 5, end: 8})
+    assert.deepEqual(rejections, [])
+})
+
+test('clipped protections keep the unprotected parts of a replacement', ()=> {
+    const {data, rejections} = store('one two three\n')
+
+    data.protect('two', 4, 7, {clip: true})
+    data.replaceText({start: 2, end: 10, text: 'X', source: 'edit'})
+    assert.equal(data.getText(), 'onXtworee\n')
+    assert.deepEqual(rejections[0].clipped.map(({start, end, text})=> [start, end, text]), [[2, 4, 'X'], [7, 10, '']])
+})
+
+test('sources outside protectedSources can change protected text', ()=> {
+    const {data} = store('one two\n')
+
+    data.protect('two', 4, 7)
+    data.replaceText({start: 4, end: 7, text: 'TWO', source: 'results'})
+    data.replaceText({start: 4, end: 7, text: 'Two'})
+    assert.equal(data.getText(), 'one Two\n')
+})
+
+test('undo cannot change protected text that a program wrote', ()=> {
+    const {data} = store('one\n')
+
+    data.replaceText({start: 3, end: 3, text: ' two', source: 'edit'})
+    data.protect('two', 3, 7)
+    data.undo()
+    assert.equal(data.getText(), 'one two\n')
+    data.unprotect('two')
+    data.undo()
+    assert.equal(data.getText(), 'one\n')
+})
+
+test('protectBlocks protects the blocks a predicate accepts', ()=> {
+    const {data} = store('one\n#results\ntwo\n')
+
+    data.protectBlocks('results', (block)=> block.text.startsWith('#'))
+    assert.deepEqual(data.protectedRanges(2, 6), [{name: 'results', start: 4, end: 13, clip: false}])
+    data.replaceText({start: 5, end: 6, text: '', source: 'edit'})
+    data.replaceText({start: 0, end: 3, text: 'ONE', source: 'edit'})
+    assert.equal(data.getText(), 'ONE\n#results\ntwo\n')
+    data.unprotect('results')
+    data.replaceText({start: 5, end: 6, text: '', source: 'edit'})
+    assert.equal(data.getText(), 'ONE\n#esults\ntwo\n')
+})
+
+test('a read-only editor ignores typing and deleting', ()=> {
+    const {node, data, editor} = lineEditor('text\n', 2)
+
+    editor.readOnly = true
+    typeText(node, 'x')
+    keyDown(node, {keyCode: BACKSPACE})
+    assert.equal(data.getText(), 'text\n')
+    editor.readOnly = false
+    typeText(node, 'x')
+    assert.equal(data.getText(), 'texxt\n')
+})
@@ -0,0 +1,86 @@
+import './dom.js'
+import {test} from 'node:test'
+import assert from 'node:assert/strict'
+// load the editor before its modules, like the example does, so their import cycles resolve
+import '../dist/editor.js'
+import {SearchController} from '../search.js'
+import {LineStore} from './stores.js'
+import {lineEditor} from './editor.js'
+
+function store(text = 'The cat sat.\nA catalog of cats\n') {
+    const data = new LineStore()
+
+    data.load('test', text)
+    return data
+}
+
+test('search finds strings across the document', ()=> {
+    const data = store()
+
+    assert.deepEqual(data.search('cat').map((m)=> [m.start, m.end]), [[4, 7], [15, 18], [26, 29]])
+    assert.deepEqual(data.search('CAT', {ignoreCase: true}).length, 3)
+    assert.deepEqual(data.search('cat', {wholeWord: true}).map((m)=> m.start), [4])
+    assert.deepEqual(data.search('.').map((m)=> m.start), [11])
+})
+
+test('search finds matches that span blocks', ()=> {
+    const data = store()
+
+    assert.deepEqual(data.search('sat.\nA').map((m)=> [m.start, m.end]), [[8, 14]])
+})
+
+test('search returns regular expression groups', ()=> {
+    const data = store()
+    const [match] = data.search(/(?<word>c\w+)g/)
+
+    assert.equal(match.text, 'catalog')
+    assert.deepEqual(match.groups, ['catalo'])
+    assert.equal(match.named.word, 'catalo')
+    assert.equal(data.search(/x*/).length, 0)
+})
+
+test('replaceAll replaces every match as one change and one undo step', ()=> {
+    const data = store()
+    let changes = 0
+
+    data.on('change', ()=> changes++)
+    assert.equal(data.replaceAll('cat', 'dog'), 3)
+    assert.equal(data.getText(), 'The dog sat.\nA dogalog of dogs\n')
+    assert.equal(changes, 1)
+    data.undo()
+    assert.equal(data.getText(), 'The cat sat.\nA catalog of cats\n')
+})
+
+test('replaceAll expands $& and groups and accepts functions', ()=> {
+    const data = store()
+
+    data.replaceAll(/c(a)(?<rest>t)/, '[$&|$1|$<rest>]', {wholeWord: true})
+    assert.equal(data.getText(), 'The [cat|a|t] sat.\nA catalog of cats\n')
+    data.replaceAll('cat', (match)=> match.text.toUpperCase(), {ignoreCase: true})
+    assert.equal(data.getText(), 'The [CAT|a|t] sat.\nA CATalog of CATs\n')
+})
+
+test('replaceMatches replaces only the given matches', ()=> {
+    const data = store()
+
+    assert.equal(data.replaceMatches(data.search('cat').slice(1), 'X'), 2)
+    assert.equal(data.getText(), 'The cat sat.\nA Xalog of Xs\n')
+})
+
+test('SearchController steps through matches from the caret and replaces them', ()=> {
+    const {data, editor} = lineEditor('one two one two one\n', 5)
+    const search = new SearchController(editor, data)
+
+    assert.equal(search.find('one').length, 3)
+    assert.equal(search.current, 1)
+    assert.equal(search.next().start, 16)
+    assert.equal(search.next().start, 0)
+    assert.equal(search.previous().start, 16)
+    search.replace('1')
+    assert.equal(data.getText(), 'one two one two 1\n')
+    assert.equal(search.matches.length, 2)
+    assert.equal(search.replaceAll('1'), 2)
+    assert.equal(data.getText(), '1 two 1 two 1\n')
+    search.destroy()
+    assert.equal(editor.search, null)
+})
@@ -0,0 +1,98 @@
+import './dom.js'
+import {test} from 'node:test'
+import assert from 'node:assert/strict'
+// load the editor before its modules, like the example does, so their import cycles resolve
+import '../dist/editor.js'
+import {diffSnapshots} from '../snapshot.js'
+import {LineStore} from './stores.js'
+
+function store(text = 'one\ntwo\nthree\n') {
+    const data = new LineStore()
+
+    data.load('test', text)
+    return data
+}
+
+test('snapshots keep the document as it was', ()=> {
+    const data = store()
+    const snapshot = data.snapshot()
+
+    data.replaceText({start: 4, end: 7, text: 'TWO', source: 'edit'})
+    assert.equal(snapshot.getText(), 'one\ntwo\nthree\n')
+    assert.equal(snapshot.getLength(), 14)
+    assert.equal(data.snapshot().getText(), 'one\nTWO\nthree\n')
+    assert.deepEqual(Object.keys(diffSnapshots(snapshot, data.snapshot()).updates), [data.blockList()[1]._id])
+})
+
+test('history has a snapshot for each version', ()=> {
+    const data = store()
+    const loaded = data.version
+
+    data.replaceText({start: 0, end: 3, text: 'ONE', source: 'edit'})
+    data.replaceText({start: 4, end: 7, text: 'TWO', source: 'edit'})
+    assert.deepEqual(data.history.versions(), [loaded, loaded + 1, loaded + 2])
+    assert.equal(data.history.at(loaded).getText(), 'one\ntwo\nthree\n')
+    assert.equal(data.history.at(loaded + 1).getText(), 'ONE\ntwo\nthree\n')
+    assert.equal(data.history.at(loaded + 5).version, loaded + 2)
+})
+
+test('history keeps only the last limit snapshots', ()=> {
+    const data = store()
+
+    data.history.limit = 3
+    for (let i = 0; i < 10; i++) data.replaceText({start: 0, end: 0, text: 'x', source: 'replace'})
+    assert.deepEqual(data.history.versions(), [data.version - 2, data.version - 1, data.version])
+})
+
+test('snapshots share mark tables until marks change', ()=> {
+    const data = store()
+
+    data.addMark('mark', 2)
+    const first = data.snapshot()
+
+    data.replaceText({start: 0, end: 0, text: 'x', source: 'edit'})
+    const second = data.snapshot()
+
+    assert.equal(second.markInfo, first.markInfo)
+    assert.equal(second.getMarkLocation('mark'), 3)
+    data.addRangeMark('range', 4, 6)
+    const third = data.snapshot()
+
+    assert.notEqual(third.markInfo, first.markInfo)
+    assert.equal(first.getMarkLocation('range.start'), undefined)
+    assert.equal(third.getMarkLocation('range.start'), 4)
+    assert.deepEqual(Object.keys(third.rangeMarks), ['range'])
+    assert.deepEqual(Object.keys(first.rangeMarks), [])
+})
+
+test('restore changes the document back as an undoable change', ()=> {
+    const data = store()
+    const snapshot = data.snapshot()
+
+    data.addMark('mark', 9)
+    data.replaceText({start: 0, end: 8, text: '', source: 'edit'})
+    assert.equal(data.getMarkLocation('mark'), 1)
+    data.restore(snapshot)
+    assert.equal(data.getText(), 'one\ntwo\nthree\n')
+    assert.equal(data.getMarkLocation('mark'), 9)
+    data.undo()
+    assert.equal(data.getText(), 'three\n')
+})
+
+test('snapshots survive a JSON round trip', ()=> {
+    const data = store()
+
+    data.addMark('mark', 5, {gravity: 'right'})
+    data.addRangeMark('range', 1, 6, {deleteWhenRemoved: true})
+    const snapshot = data.snapshot()
+    const copy = data.snapshotFromJSON(JSON.parse(JSON.stringify(snapshot)))
+
+    assert.equal(copy.getText(), snapshot.getText())
+    assert.equal(copy.version, snapshot.version)
+    assert.equal(copy.getMarkLocation('mark'), 5)
+    assert.deepEqual(copy.markInfo.mark, {gravity: 'right', deleteWhenRemoved: false})
+    assert.deepEqual(copy.rangeMarks, snapshot.rangeMarks)
+    data.replaceText({start: 0, end: 14, text: 'gone\n', source: 'edit'})
+    data.restore(copy)
+    assert.equal(data.getText(), 'one\ntwo\nthree\n')
+})
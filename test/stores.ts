@@ -0,0 +1,14 @@
+import {BasicEditingOptionsNew, DataStore} from '../editor-ts.js'
+import type {block} from '../editor-ts.js'
+
+/** a DataStore with a block for each line */
+export class LineStore extends DataStore {
+    parseBlocks(text: string) {return (text.match(/[^\n]*\n|[^\n]+$/g) ?? []).map((line)=> ({text: line}) as block)}
+}
+
+/** editing options on a LineStore, without an editor to render into */
+export class LineOptions extends BasicEditingOptionsNew {
+    constructor(public data = new LineStore()) {super()}
+
+    rerenderAll() {}
+}
@@ -0,0 +1,144 @@
+import './dom.js'
+import {test} from 'node:test'
+import assert from 'node:assert/strict'
+// load the editor before its modules, like the example does, so their import cycles resolve
+import '../dist/editor.js'
+import {LogUndoAdapter} from '../undo.js'
+import {LineOptions, LineStore} from './stores.js'
+
+function memoryStorage() {
+    const items: {[key: string]: string} = {}
+
+    return {items, getItem: (key: string)=> items[key] ?? null, setItem: (key: string, value: string)=> {items[key] = value}}
+}
+
+test('undo and redo replacements', ()=> {
+    const data = new LineStore()
+
+    data.load('test', 'one\ntwo\n')
+    data.replaceText({start: 0, end: 3, text: 'ONE', source: 'edit'})
+    data.replaceText({start: 4, end: 8, text: '', source: 'edit'})
+    assert.equal(data.getText(), 'ONE\n')
+    data.undo()
+    assert.equal(data.getText(), 'ONE\ntwo\n')
+    data.undo()
+    assert.equal(data.getText(), 'one\ntwo\n')
+    assert.equal(data.undoManager.canUndo(), false)
+    data.redo()
+    data.redo()
+    assert.equal(data.getText(), 'ONE\n')
+    assert.equal(data.undoManager.canRedo(), false)
+})
+
+test('typing is grouped into one undo step', ()=> {
+    const data = new LineStore()
+
+    data.load('test', 'x\n')
+    'abc'.split('').forEach((char, i)=> data.replaceText({start: 1 + i, end: 1 + i, text: char, source: 'edit'}))
+    assert.equal(data.getText(), 'xabc\n')
+    data.undo()
+    assert.equal(data.getText(), 'x\n')
+})
+
+test('changes from collaborators are not undoable', ()=> {
+    const data = new LineStore()
+
+    data.load('test', 'x\n')
+    data.replaceText({start: 0, end: 0, text: 'remote ', source: 'remote'})
+    assert.equal(data.undoManager.canUndo(), false)
+})
+
+test('loading a document through the options is not an undo step', ()=> {
+    const options = new LineOptions()
+
+    options.load('test', 'one\n')
+    assert.equal(options.data.undoManager.canUndo(), false)
+    options.replaceText({start: 3, end: 3, text: '!', source: 'edit'})
+    options.load('test', 'two\n')
+    assert.equal(options.data.undoManager.canUndo(), false)
+    assert.equal(options.undo(), undefined)
+    assert.equal(options.data.getText(), 'two\n')
+})
+
+test('undo drops only the steps that no longer match the document', ()=> {
+    const data = new LineStore()
+    const discarded = []
+
+    data.on('undoDiscarded', (event)=> discarded.push(event))
+    data.load('test', 'a\nb\n')
+    data.replaceText({start: 0, end: 1, text: 'aa', source: 'edit'})
+    data.replaceText({start: 3, end: 4, text: 'bb', source: 'edit'})
+    data.replaceText({start: 3, end: 5, text: 'remote', source: 'remote'})
+    data.undo()
+    assert.equal(data.getText(), 'a\nremote\n')
+    assert.equal(discarded.length, 1)
+    assert.equal(discarded[0].stack, 'undo')
+    assert.equal(discarded[0].transaction.source, 'edit')
+    assert.equal(data.undoManager.canUndo(), false)
+    assert.equal(data.undoManager.canRedo(), true)
+})
+
+test('persisted history applies to a reloaded document', ()=> {
+    const storage = memoryStorage()
+    const first = new LineOptions()
+
+    first.data.setUndoAdapter(new LogUndoAdapter(storage))
+    first.load('test', 'one\ntwo\n')
+    first.replaceText({start: 0, end: 3, text: 'ONE', source: 'edit'})
+    const text = first.data.getText();
+
+    (first.data.undoManager.adapter as LogUndoAdapter).destroy()
+    const second = new LineOptions()
+
+    second.data.setUndoAdapter(new LogUndoAdapter(storage))
+    second.load('test', text)
+    second.undo()
+    assert.equal(second.data.getText(), 'one\ntwo\n')
+})
+
+test('persisted history is discarded for a different document', ()=> {
+    const storage = memoryStorage()
+    const first = new LineStore()
+
+    first.setUndoAdapter(new LogUndoAdapter(storage))
+    first.load('test', 'one\n')
+    first.replaceText({start: 0, end: 3, text: 'ONE', source: 'edit'});
+    (first.undoManager.adapter as LogUndoAdapter).destroy()
+    const second = new LineStore()
+
+    second.setUndoAdapter(new LogUndoAdapter(storage))
+    second.load('test', 'other\n')
+    assert.equal(second.undoManager.canUndo(), false)
+})
+
+test('LogUndoAdapter saves when the page is hidden until it is destroyed', ()=> {
+    const page = new EventTarget()
+    const {addEventListener, removeEventListener} = globalThis as any
+    const storage = memoryStorage()
+
+    Object.assign(globalThis, {addEventListener: page.addEventListener.bind(page), removeEventListener: page.removeEventListener.bind(page)})
+    try {
+        const data = new LineStore()
+        const adapter = new LogUndoAdapter(storage)
+
+        adapter.saveDelay = 60000
+        data.setUndoAdapter(adapter)
+        data.load('test', 'one\n')
+        data.replaceText({start: 0, end: 3, text: 'ONE', source: 'edit'})
+        assert.equal(storage.items.leisureUndo, undefined)
+        page.dispatchEvent(new Event('pagehide'))
+        const saved = storage.items.leisureUndo
+
+        assert.match(saved, /ONE/)
+        data.replaceText({start: 0, end: 3, text: 'one', source: 'edit'})
+        adapter.destroy()
+        assert.notEqual(storage.items.leisureUndo, saved)
+        storage.items.leisureUndo = saved
+        data.replaceText({start: 0, end: 3, text: 'uno', source: 'edit'})
+        page.dispatchEvent(new Event('pagehide'))
+        assert.equal(storage.items.leisureUndo, saved)
+        clearTimeout(adapter.saveTimer)
+    } finally {
+        Object.assign(globalThis, {addEventListener, removeEventListener})
+    }
+})
@@ -0,0 +1,153 @@
+import './dom.js'
+import {test} from 'node:test'
+import assert from 'node:assert/strict'
+// load the editor before its modules, like the example does, so their import cycles resolve
+import '../dist/editor.js'
+import {DataStore} from '../editor-ts.js'
+import type {block} from '../editor-ts.js'
+import {VimMode} from '../vim.js'
+import {keyDown, lineEditor} from './editor.js'
+
+/** a store with four character blocks, so lines span blocks */
+class ChunkStore extends DataStore {
+    parseBlocks(text: string) {return (text.match(/[^]{1,4}/g) ?? []).map((chunk)=> ({text: chunk}) as block)}
+}
+
+function vimEditor(text: string, caret = 0, data?: DataStore) {
+    const editor = lineEditor(text, caret, data)
+    const vim = new VimMode(editor.editor, editor.data)
+
+    return {...editor, vim}
+}
+
+test('word and line motions move the caret', ()=> {
+    const {vim, caret} = vimEditor('one two-three four\nsecond line\n')
+    const positions = []
+
+    for (const key of ['w', 'w', 'w', 'b', 'e', '$', '0', 'G', 'gg']) {
+        vim.run(key)
+        positions.push(caret())
+    }
+    assert.deepEqual(positions, [4, 7, 8, 7, 12, 17, 0, 19, 0])
+})
+
+test('j and k keep the column and clamp it to short lines', ()=> {
+    const {vim, caret} = vimEditor('first line\nab\nthird line\n', 8)
+
+    vim.run('j')
+    assert.equal(caret(), 13)
+    vim.run('j')
+    assert.equal(caret(), 16)
+    vim.run('2k')
+    assert.equal(caret(), 2)
+    vim.run('k')
+    assert.equal(caret(), 2)
+})
+
+test('j and k compute their target without moving the selection', ()=> {
+    const {vim, editor} = vimEditor('first line\nsecond line\n', 3)
+    let selections = 0
+    const select = editor.selectDocRange
+
+    editor.selectDocRange = (range)=> {
+        selections++
+        return select.call(editor, range)
+    }
+    assert.deepEqual(vim.motion('j', 3, 1), {pos: 14, linewise: true})
+    assert.deepEqual(vim.motion('k', 14, 1), {pos: 3, linewise: true})
+    assert.equal(selections, 0)
+})
+
+test('operators take motions and counts, and . repeats the last change', ()=> {
+    const {vim, data, caret} = vimEditor('one two three four five\n')
+
+    vim.run('dw')
+    assert.equal(data.getText(), 'two three four five\n')
+    vim.run('.')
+    assert.equal(data.getText(), 'three four five\n')
+    vim.run('2dw')
+    assert.equal(data.getText(), 'five\n')
+    vim.run('u')
+    assert.equal(data.getText(), 'three four five\n')
+    vim.run('cwTHREE')
+    vim.escape()
+    assert.equal(data.getText(), 'THREE four five\n')
+    assert.equal(caret(), 4)
+})
+
+test('dd deletes lines and p puts them back', ()=> {
+    const {vim, data} = vimEditor('one\ntwo\nthree\n', 5)
+
+    vim.run('dd')
+    assert.equal(data.getText(), 'one\nthree\n')
+    assert.deepEqual(vim.registers['"'], {text: 'two\n', linewise: true})
+    vim.run('p')
+    assert.equal(data.getText(), 'one\nthree\ntwo\n')
+})
+
+test('dd on the last line deletes the newline before it', ()=> {
+    const {vim, data, caret} = vimEditor('one\ntwo\nthree', 10)
+
+    vim.run('dd')
+    assert.equal(data.getText(), 'one\ntwo')
+    assert.equal(caret(), 4)
+    assert.deepEqual(vim.registers['"'], {text: 'three\n', linewise: true})
+    vim.run('P')
+    assert.equal(data.getText(), 'one\nthree\ntwo')
+    vim.run('Gdk')
+    assert.equal(data.getText(), 'one')
+})
+
+test('registers hold yanks and deletes, and uppercase names append', ()=> {
+    const {vim, data} = vimEditor('one two three\n')
+
+    vim.run('"ayw')
+    vim.run('w"Ayw')
+    assert.deepEqual(vim.registers.a, {text: 'one two ', linewise: false})
+    assert.equal(vim.registers['0'], undefined)
+    vim.run('yw')
+    assert.deepEqual(vim.registers['0'], {text: 'two ', linewise: false})
+    vim.run('0x"ap')
+    assert.deepEqual(vim.registers['"'], {text: 'o', linewise: false})
+    assert.equal(data.getText(), 'none two e two three\n')
+})
+
+test('lines can span blocks', ()=> {
+    const data = new ChunkStore()
+    const {vim, caret} = vimEditor('hello world\nsecond line\nend\n', 6, data)
+
+    assert.ok(data.blockList().length > 3)
+    assert.equal(vim.lineStart(6), 0)
+    assert.equal(vim.lineEnd(6), 11)
+    vim.run('$')
+    assert.equal(caret(), 10)
+    vim.run('j')
+    assert.equal(caret(), 22)
+    vim.run('dd')
+    assert.equal(data.getText(), 'hello world\nend\n')
+})
+
+test('visual mode extends a selection that d deletes', ()=> {
+    const {vim, data} = vimEditor('one two three\n', 4)
+    const modes = []
+
+    vim.on('mode', ({mode})=> modes.push(mode))
+    vim.run('ve')
+    vim.run('d')
+    assert.equal(data.getText(), 'one  three\n')
+    assert.deepEqual(modes, ['visual', 'normal'])
+})
+
+test('the editor sends keys to vim and only insert mode edits with typing', ()=> {
+    const {node, vim, data} = vimEditor('abc\n')
+
+    keyDown(node, {key: 'x'})
+    assert.equal(data.getText(), 'bc\n')
+    keyDown(node, {key: 'i'})
+    assert.equal(vim.mode, 'insert')
+    assert.equal(vim.acceptsInput(), true)
+    keyDown(node, {key: 'Escape'})
+    assert.equal(vim.mode, 'normal')
+    assert.equal(vim.acceptsInput(), false)
+    vim.destroy()
+})
@@ -0,0 +1,486 @@
+import type {DataStore, block, replacement} from './editor-ts.js'
+
+type blockMap = {[id: string]: block}
+
+/** the state of the touched blocks (null for absent blocks) before and after a group of changes */
+export type transaction = {
+    before: {[id: string]: block | null},
+    after: {[id: string]: block | null},
+    firstBefore: string,
+    firstAfter: string,
+    selection: any,
+    source?: string,
+    kind?: 'insert' | 'delete',
+    caret?: number,
+    time?: number,
+}
+
+export type undoStack = 'undo' | 'redo'
+
+/** a block's id and a hash of its text, so a reloaded document can get the ids its history uses */
+export type blockKey = [id: string, hash: number]
+
+/**
+ * UndoAdapter
+ * ===========
+ * Storage for undo history.  An UndoManager keeps its undo and redo stacks in an
+ * adapter, so history can live outside of the DataStore (in localStorage, a file, or a
+ * shared store like Meteor).  Transactions contain only blocks, ids, and selections so
+ * they serialize as JSON.
+ *
+ * History refers to blocks by id, so a persistent adapter also keeps the block keys of
+ * the document: the UndoManager gives it a function that returns them and asks for them
+ * back when the DataStore loads a document.  If the loaded blocks have the same text, they
+ * get the saved ids and the history still applies.  UndoManager discards transactions that
+ * no longer match the document.
+ *
+ * * `push(stack, tr)`: push a transaction onto a stack
+ * * `pop(stack) -> transaction?`: remove and return the top transaction
+ * * `peek(stack) -> transaction?`: return the top transaction
+ * * `replaceTop(stack, tr)`: replace the top transaction (used when an edit joins the current group)
+ * * `shift(stack)`: discard the oldest transaction
+ * * `size(stack) -> number`: the number of transactions on a stack
+ * * `clear(stack)`: remove all transactions from a stack
+ * * `setBlockKeys(keys)`: optional, keys() returns the document's current block keys
+ * * `savedBlockKeys() -> [blockKey]`: optional, the block keys saved with the history
+ */
+export interface UndoAdapter {
+    push(stack: undoStack, tr: transaction): void
+    pop(stack: undoStack): transaction
+    peek(stack: undoStack): transaction
+    replaceTop(stack: undoStack, tr: transaction): void
+    shift(stack: undoStack): void
+    size(stack: undoStack): number
+    clear(stack: undoStack): void
+    setBlockKeys?(keys: ()=> blockKey[]): void
+    savedBlockKeys?(): blockKey[]
+}
+
+/** The default adapter: keeps history in memory */
+export class MemoryUndoAdapter implements UndoAdapter {
+    stacks: {[stack: string]: transaction[]} = {undo: [], redo: []}
+
+    push(stack: undoStack, tr: transaction) {this.stacks[stack].push(tr)}
+
+    pop(stack: undoStack) {return this.stacks[stack].pop()}
+
+    peek(stack: undoStack) {return this.stacks[stack][this.stacks[stack].length - 1]}
+
+    replaceTop(stack: undoStack, tr: transaction) {
+        const s = this.stacks[stack]
+
+        if (s.length) s[s.length - 1] = tr
+    }
+
+    shift(stack: undoStack) {this.stacks[stack].shift()}
+
+    size(stack: undoStack) {return this.stacks[stack].length}
+
+    clear(stack: undoStack) {this.stacks[stack] = []}
+}
+
+/** anything with localStorage's getItem/setItem, like localStorage itself */
+export type undoStorage = {
+    getItem(key: string): string | null,
+    setItem(key: string, value: string): void,
+}
+
+type logEntry = {op: 'push' | 'pop' | 'replaceTop' | 'shift' | 'clear', stack: undoStack, tr?: transaction}
+    | {op: 'blocks', keys: blockKey[]}
+
+/**
+ * LogUndoAdapter
+ * ==============
+ * Reference adapter that persists history as a serialized log of stack operations, one
+ * JSON entry per line, followed by the document's block keys.  The log is written to
+ * `storage[key]` `saveDelay` milliseconds after an operation, so a run of typing writes it
+ * once, and when the page is hidden.  It is replayed when the adapter is created, so
+ * history survives page reloads; set the adapter before loading the document (see
+ * `DataStore.setUndoAdapter()`).  Use `serialize()` and `LogUndoAdapter.deserialize(text)`
+ * to keep the log in a file or blob instead.
+ *
+ * Call `destroy()` when you are done with the adapter.
+ *
+ * When the log grows past `compactSize` entries, it is rewritten as the pushes needed to
+ * recreate the current stacks.
+ */
+export class LogUndoAdapter extends MemoryUndoAdapter {
+    storage: undoStorage
+    key: string
+    log: logEntry[] = []
+    compactSize = 500
+    saveDelay = 1000
+    saveTimer: ReturnType<typeof setTimeout> = null
+    blockKeys: ()=> blockKey[] = ()=> []
+    savedKeys: blockKey[] = []
+    pageHidden = ()=> this.saveTimer !== null && this.save()
+
+    static deserialize(text: string, storage?: undoStorage, key?: string) {
+        const adapter = new LogUndoAdapter(storage, key)
+
+        adapter.replay(parseLog(text))
+        adapter.save()
+        return adapter
+    }
+
+    constructor(storage?: undoStorage, key = 'leisureUndo') {
+        super()
+        this.storage = storage
+        this.key = key
+        if (storage) {
+            this.replay(parseLog(storage.getItem(key)))
+            globalThis.addEventListener?.('pagehide', this.pageHidden)
+        }
+    }
+
+    /** write any unsaved operations and stop saving when the page is hidden */
+    destroy() {
+        globalThis.removeEventListener?.('pagehide', this.pageHidden)
+        this.pageHidden()
+    }
+
+    setBlockKeys(keys: ()=> blockKey[]) {this.blockKeys = keys}
+
+    savedBlockKeys() {return this.savedKeys}
+
+    push(stack: undoStack, tr: transaction) {this.append({op: 'push', stack, tr})}
+
+    pop(stack: undoStack) {
+        const tr = this.peek(stack)
+
+        this.append({op: 'pop', stack})
+        return tr
+    }
+
+    replaceTop(stack: undoStack, tr: transaction) {this.append({op: 'replaceTop', stack, tr})}
+
+    shift(stack: undoStack) {this.append({op: 'shift', stack})}
+
+    clear(stack: undoStack) {this.append({op: 'clear', stack})}
+
+    append(entry: logEntry) {
+        this.perform(entry)
+        this.log.push(entry)
+        if (this.log.length > this.compactSize) this.compact()
+        this.scheduleSave()
+    }
+
+    perform(entry: logEntry) {
+        if (entry.op === 'blocks') return
+        const {op, stack, tr} = entry
+
+        switch (op) {
+            case 'push': return super.push(stack, tr)
+            case 'pop': return super.pop(stack)
+            case 'replaceTop': return super.replaceTop(stack, tr)
+            case 'shift': return super.shift(stack)
+            case 'clear': return super.clear(stack)
+        }
+    }
+
+    replay(entries: logEntry[]) {
+        for (const entry of entries) {
+            if (entry.op === 'blocks') {
+                this.savedKeys = entry.keys
+            } else {
+                this.perform(entry)
+                this.log.push(entry)
+            }
+        }
+    }
+
+    /** rewrite the log as the pushes that recreate the current stacks */
+    compact() {
+        this.log = []
+        for (const stack of ['undo', 'redo'] as undoStack[]) {
+            for (const tr of this.stacks[stack]) this.log.push({op: 'push', stack, tr})
+        }
+    }
+
+    serialize() {
+        this.savedKeys = this.blockKeys()
+        return this.log.concat([{op: 'blocks', keys: this.savedKeys}]).map((entry)=> JSON.stringify(entry)).join('\n')
+    }
+
+    scheduleSave() {
+        if (!this.storage) return
+        if (!this.saveDelay) return this.save()
+        if (this.saveTimer === null) this.saveTimer = setTimeout(()=> this.save(), this.saveDelay)
+    }
+
+    save() {
+        clearTimeout(this.saveTimer)
+        this.saveTimer = null
+        this.storage?.setItem(this.key, this.serialize())
+    }
+}
+
+function parseLog(text: string): logEntry[] {
+    return !text ? [] : text.split('\n').filter((line)=> line.trim()).map((line)=> JSON.parse(line))
+}
+
+/**
+ * UndoManager
+ * ===========
+ * Undo/redo history for a DataStore.
+ *
+ * The store calls `record(change, repl)` with the result of each `makeChange`.  Each
+ * change becomes an invertible transaction holding the old and new versions of every
+ * block it touched.  Consecutive single-character edits are grouped into one
+ * transaction so undo removes a whole run of typing at once.  Transactions are kept in
+ * an UndoAdapter (MemoryUndoAdapter by default).
+ *
+ * Undo and redo skip transactions whose blocks no longer match the document, dropping
+ * them from the history with an `undoDiscarded` event on the store.
+ *
+ * Undoing or redoing a transaction sends a normal change through `DataStore.change`, so
+ * listeners rerender the same way they do for edits.  Marks float through the difference
+ * between the document's text before and after it.  That difference goes through the
+ * store's beforeChange hooks and protections first, with the source 'undo' or 'redo'.  If
+ * they cancel or rewrite it, the transaction stays where it is and `undo()` or `redo()`
+ * returns nothing.
+ *
+ * Properties
+ * ----------
+ * * `adapter`: the UndoAdapter holding the history (see `setAdapter(adapter)`)
+ * * `groupDelay`: maximum milliseconds between keystrokes that are grouped together
+ * * `limit`: maximum number of undo steps to keep
+ * * `getSelection() -> selection`: returns the selection to restore on undo (editing options set this)
+ */
+export class UndoManager {
+    data: DataStore
+    adapter: UndoAdapter
+    applying = false
+    groupDelay = 1000
+    limit = 1000
+    getSelection: ()=> any = ()=> null
+
+    constructor(data: DataStore, adapter: UndoAdapter = new MemoryUndoAdapter()) {
+        this.data = data
+        this.setAdapter(adapter)
+    }
+
+    setAdapter(adapter: UndoAdapter) {
+        this.adapter = adapter
+        adapter.setBlockKeys?.(()=> this.data.blockList().map((block)=> [block._id, textHash(block.text)]))
+    }
+
+    /**
+     * give blocks that are being loaded the ids they had when the history was saved, if
+     * their text is the same, so the history still applies.  Otherwise clear the history.
+     * Returns whether the blocks got the saved ids
+     */
+    adoptIds(blocks: block[]) {
+        const keys = this.adapter.savedBlockKeys?.()
+
+        if (keys?.length && keys.length === blocks.length && keys.every(([, hash], i)=> hash === textHash(blocks[i].text))) {
+            blocks.forEach((block, i)=> block._id = keys[i][0])
+            return true
+        }
+        this.clear()
+        return false
+    }
+
+    canUndo() {return this.adapter.size('undo') > 0}
+
+    canRedo() {return this.adapter.size('redo') > 0}
+
+    clear() {
+        this.adapter.clear('undo')
+        this.adapter.clear('redo')
+    }
+
+    /** start a new undo step even if the next edit could be grouped with the last one */
+    breakGroup() {
+        const tr = this.adapter.peek('undo')
+
+        if (tr?.kind) this.adapter.replaceTop('undo', Object.assign({}, tr, {kind: null}))
+    }
+
+    /** record the result of DataStore.makeChange (changes from other sites are not undoable) */
+    record({sets, removes, old, oldFirst, first}, repl?: replacement) {
+        if (this.applying || repl?.source === 'remote') return
+        const tr = this.newTransaction(repl)
+        const prev = this.adapter.peek('undo')
+
+        if (this.continuesGroup(prev, tr)) {
+            const merged = copyTransaction(prev)
+
+            this.mergeInto(merged, sets, removes, old, first)
+            merged.caret = tr.caret
+            merged.time = tr.time
+            this.adapter.replaceTop('undo', merged)
+        } else {
+            tr.firstBefore = oldFirst
+            this.mergeInto(tr, sets, removes, old, first)
+            this.adapter.push('undo', tr)
+            if (this.adapter.size('undo') > this.limit) this.adapter.shift('undo')
+        }
+        if (this.adapter.size('redo')) this.adapter.clear('redo')
+    }
+
+    /** undo the last transaction and return the selection from before it */
+    undo() {
+        const tr = this.current('undo', (tr)=> tr.after)
+
+        if (tr) {
+            const selection = this.getSelection()
+
+            if (!this.apply(tr.after, tr.before, tr.firstBefore, 'undo')) return
+            this.adapter.pop('undo')
+            this.adapter.push('redo', Object.assign({}, tr, {kind: null, selection}))
+            return tr.selection
+        }
+    }
+
+    /** redo the last undone transaction and return the selection from before the undo */
+    redo() {
+        const tr = this.current('redo', (tr)=> tr.before)
+
+        if (tr) {
+            const selection = this.getSelection()
+
+            if (!this.apply(tr.before, tr.after, tr.firstAfter, 'redo')) return
+            this.adapter.pop('redo')
+            this.adapter.push('undo', Object.assign({}, tr, {selection}))
+            return tr.selection
+        }
+    }
+
+    /**
+     * the top transaction of a stack whose `from` blocks are still in the document.  History
+     * from an external store can be stale, so this drops the transactions on top that no
+     * longer match, triggering `undoDiscarded` on the store for each one
+     */
+    current(stack: undoStack, from: (tr: transaction)=> {[id: string]: block | null}) {
+        let tr: transaction
+
+        while ((tr = this.adapter.peek(stack)) && !this.matches(from(tr))) {
+            this.adapter.pop(stack)
+            this.data.trigger('undoDiscarded', {stack, transaction: tr})
+        }
+        return tr
+    }
+
+    newTransaction(repl?: replacement): transaction {
+        const tr: transaction = {
+            before: {},
+            after: {},
+            firstBefore: null,
+            firstAfter: null,
+            selection: this.getSelection(),
+            source: repl?.source,
+            time: Date.now(),
+        }
+
+        if (repl?.source === 'edit') {
+            if (repl.start === repl.end && repl.text.length === 1 && repl.text !== '\n') {
+                tr.kind = 'insert'
+                tr.caret = repl.start + 1
+            } else if (repl.end - repl.start === 1 && !repl.text) {
+                tr.kind = 'delete'
+                tr.caret = repl.start
+            }
+        }
+        return tr
+    }
+
+    /** typing or deleting adjacent to the previous keystroke continues its group */
+    continuesGroup(prev: transaction, tr: transaction) {
+        if (!prev?.kind || prev.kind !== tr.kind || tr.time - prev.time > this.groupDelay) return false
+        return tr.kind === 'insert' ? tr.caret - 1 === prev.caret
+            : tr.caret === prev.caret || tr.caret + 1 === prev.caret
+    }
+
+    mergeInto(tr: transaction, sets: blockMap, removes: blockMap, old: blockMap, first: string) {
+        for (const id in old) {
+            if (!(id in tr.before)) tr.before[id] = old[id]
+        }
+        for (const id in sets) {
+            if (!(id in tr.before)) tr.before[id] = null
+            tr.after[id] = sets[id]
+        }
+        for (const id in removes) {
+            if (!(id in tr.before)) tr.before[id] = removes[id]
+            tr.after[id] = null
+        }
+        tr.firstAfter = first
+    }
+
+    /** whether the document still contains the `from` versions of the blocks */
+    matches(from: {[id: string]: block | null}) {
+        for (const id in from) {
+            const current = this.data.getBlock(id)
+
+            if (from[id] ? current?.text !== from[id].text : current) return false
+        }
+        return true
+    }
+
+    /**
+     * change the blocks from their `from` versions to their `to` versions, which must match
+     * the document (see `current()`).  Return false if the store's hooks or protections
+     * reject the change
+     */
+    apply(from: {[id: string]: block | null}, to: {[id: string]: block | null}, first: string, source: string) {
+        const sets: blockMap = {}
+        const removes: blockMap = {}
+        const oldBlocks: block[] = []
+        const newBlocks: block[] = []
+
+        for (const id in to) {
+            if (to[id]) {
+                sets[id] = to[id]
+                newBlocks.push(to[id])
+            } else if (this.data.getBlock(id)) {
+                removes[id] = this.data.getBlock(id)
+            }
+            if (from[id]) oldBlocks.push(from[id])
+        }
+        const diff = textDifference(this.data.getText(), this.textAfter(to, first))
+
+        if (!this.data.allowsReplacement({...diff, source})) return false
+        this.applying = true
+        try {
+            // float marks first so change listeners see them in their new locations
+            this.data.floatMarks(diff.start, diff.end, diff.text.length)
+            this.data.change({first, sets, removes, oldBlocks, newBlocks})
+        } finally {
+            this.applying = false
+        }
+        return true
+    }
+
+    /** the document's text after changing the blocks to their `to` versions */
+    textAfter(to: {[id: string]: block | null}, first: string) {
+        let text = ''
+
+        for (let block = this.block(to, first); block; block = this.block(to, block.next)) text += block.text
+        return text
+    }
+
+    block(blocks: {[id: string]: block | null}, id: string) {return id in blocks ? blocks[id] : this.data.getBlock(id)}
+}
+
+/** a 32 bit FNV-1a hash of text */
+export function textHash(text: string) {
+    let hash = 0x811c9dc5
+
+    for (let i = 0; i < text.length; i++) hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193)
+    return hash >>> 0
+}
+
+/** the smallest replacement that changes oldText into newText */
+export function textDifference(oldText: string, newText: string): replacement {
+    const max = Math.min(oldText.length, newText.length)
+    let start = 0
+    let suffix = 0
+
+    while (start < max && oldText[start] === newText[start]) start++
+    while (suffix < max - start && oldText[oldText.length - suffix - 1] === newText[newText.length - suffix - 1]) suffix++
+    return {start, end: oldText.length - suffix, text: newText.substring(start, newText.length - suffix)}
+}
+
+function copyTransaction(tr: transaction): transaction {
+    return Object.assign({}, tr, {before: Object.assign({}, tr.before), after: Object.assign({}, tr.after)})
+}
@@ -0,0 +1,504 @@
+import type {Editor} from './dist/editor.js'
+import {Observable} from './editor-ts.js'
+import type {DataStore} from './editor-ts.js'
+
+export type vimModeName = 'normal' | 'insert' | 'visual'
+/** the contents of a register; linewise text holds whole lines, including their newlines */
+export type register = {text: string, linewise: boolean}
+
+type command = {keys: string, register?: string, count: number, operator?: string, rest: string}
+type motionResult = {pos: number, inclusive?: boolean, linewise?: boolean}
+
+const commandPattern = /^(?:"([a-zA-Z0-9"]))?([1-9]\d*)?(?:([dcy])([1-9]\d*)?)?(.*)$/
+const motionKeys = /^(?:[wbehjkl0$G]|gg)$/
+const simpleKeys = /^[xXpPiaIAoOvu.]$/
+/** simple commands that change the document, which `.` repeats */
+const changeKeys = /^[xXpPiaIAoO]$/
+const wordChar = /[\p{L}\p{N}_]/u
+/** special keys that mean normal mode commands */
+const specialKeyCommands: {[key: string]: string} = {Backspace: 'h', Enter: 'j', Delete: 'x'}
+/** special keys that still go to the editor in normal and visual mode */
+const passedKeys = /^(?:Arrow(?:Left|Right|Up|Down)|Home|End|PageUp|PageDown|F\d+|Shift|Control|Alt|Meta|CapsLock|NumLock|ScrollLock|ContextMenu)$/
+
+/**
+ * VimMode
+ * =======
+ * A modal layer for an editor, with normal, insert, and visual modes.
+ *
+ * The controller sets the editor's `modal` property and the editor offers it each
+ * keydown before its own bindings.  In insert mode only ESC is taken; other keys edit
+ * normally.  In normal and visual mode, keys with Control, Alt, or Meta and movement keys
+ * like the arrows still go to the editor's bindings, except C-R (redo).  Backspace, Enter,
+ * and Delete act like `h`, `j`, and `x`, and other special keys, like Tab, are ignored so
+ * they can't edit the document.  `beforeinput` events only edit in insert mode (see
+ * `acceptsInput()`).
+ *
+ * Normal mode
+ * -----------
+ * * motions: `h`, `l`, `w`, `b`, `e`, `0`, `$`, `gg`, `G`, `j`, and `k` (which keep the caret's column, counted in characters)
+ * * operators `d`, `c`, and `y` followed by a motion, or doubled for whole lines (`dd`, `cc`, `yy`)
+ * * `x`, `X`, `p`, `P`, `i`, `a`, `I`, `A`, `o`, `O`, `v`, `u`, C-R, and `.` to repeat the last change
+ *
+ * Lines can span blocks.  The last line of the document has no newline, so deleting it
+ * deletes the newline before it.
+ * * counts before commands and motions, like `3w` or `2d3w`
+ * * registers: `"a` before a command uses register a (`"A` appends to it); yanks also go in `0`
+ *
+ * In visual mode, motions extend the selection and `d`, `x`, `c`, and `y` act on it (`.`
+ * does not repeat these).
+ *
+ * Events
+ * ------
+ * `mode {mode}`: the mode changed; `mode` is 'normal', 'insert', or 'visual'
+ *
+ * Methods
+ * -------
+ * * `keyDown(event) -> boolean`: handle a key, returning true if it was used (the editor calls this)
+ * * `acceptsInput() -> boolean`: whether `beforeinput` events can edit (the editor calls this)
+ * * `setMode(mode)`: change modes
+ * * `run(keys)`: run normal mode keys, like `'d2w'`
+ * * `destroy()`: leave the editor unmodal
+ */
+export class VimMode extends Observable {
+    editor: Editor
+    data: DataStore
+    mode: vimModeName = 'normal'
+    /** the keys typed so far for the current command */
+    pending = ''
+    registers: {[name: string]: register} = {}
+    /** the last change, for `.`; text is what was typed in insert mode afterwards */
+    lastChange: {keys: string, text: string} = null
+    recording: {keys: string, text: string} = null
+    insertStart = 0
+    replaying = false
+    /** the fixed end of the visual selection */
+    anchor = 0
+    /** the moving end of the visual selection */
+    head = 0
+
+    constructor(editor: Editor, data: DataStore) {
+        super()
+        this.editor = editor
+        this.data = data
+        editor.modal = this
+    }
+
+    destroy() {
+        if (this.editor.modal === this) this.editor.modal = null
+    }
+
+    setMode(mode: vimModeName) {
+        if (mode !== this.mode) {
+            this.mode = mode
+            this.trigger('mode', {mode})
+        }
+    }
+
+    keyDown(e: KeyboardEvent) {
+        if (e.key === 'Escape') {
+            this.escape()
+            return true
+        }
+        if (this.mode === 'insert') return false
+        if (e.ctrlKey && !e.altKey && !e.metaKey && e.key.toLowerCase() === 'r') {
+            this.pending = ''
+            this.editor.redo()
+            return true
+        }
+        if (e.ctrlKey || e.altKey || e.metaKey) return false
+        if (e.key.length !== 1) {
+            if (specialKeyCommands[e.key]) this.typeKey(specialKeyCommands[e.key])
+            return !passedKeys.test(e.key)
+        }
+        this.typeKey(e.key)
+        return true
+    }
+
+    acceptsInput() {return this.mode === 'insert'}
+
+    /** run normal mode keys */
+    run(keys: string) {
+        for (const key of keys) this.typeKey(key)
+    }
+
+    typeKey(key: string) {
+        if (this.mode === 'insert') {
+            const pos = this.caret()
+
+            return this.editor.replaceDocRange({start: pos, end: pos}, key)
+        }
+        if (this.mode === 'visual' && /^(?:"[a-zA-Z0-9"])?\d*$/.test(this.pending) && 'dxcy'.includes(key)) {
+            const register = this.pending[0] === '"' ? this.pending[1] : undefined
+
+            this.pending = ''
+            this.setMode('normal')
+            return this.operate(key === 'x' ? 'd' : key, Math.min(this.anchor, this.head), this.visualEnd(), false, register)
+        }
+        this.pending += key
+        const cmd = this.parse(this.pending)
+
+        if (cmd) {
+            this.pending = ''
+            this.execute(cmd)
+        } else if (cmd === null) this.pending = ''
+    }
+
+    /** the command for keys, undefined if keys could still become a command, or null if they can't */
+    parse(keys: string): command {
+        const [, register, count, operator, opCount, rest] = commandPattern.exec(keys)
+
+        if (keys === '"' || rest === '' || (rest === 'g')) return undefined
+        if (operator ? rest !== operator && !motionKeys.test(rest) : !motionKeys.test(rest) && !simpleKeys.test(rest)) {
+            return null
+        }
+        return {keys, register, count: Number(count || 1) * Number(opCount || 1), operator, rest}
+    }
+
+    execute(cmd: command) {
+        const {register, count, operator, rest} = cmd
+        const pos = this.caret()
+
+        if (pos == null) return
+        if (!this.replaying && (operator && operator !== 'y' || changeKeys.test(rest))) {
+            this.lastChange = {keys: cmd.keys, text: ''}
+        }
+        if (operator && rest === operator) {
+            let end = pos
+
+            for (let i = 0; i < count; i++) end = Math.min(this.lineEnd(end) + 1, this.data.getLength())
+            // cc keeps the last newline
+            if (operator === 'c' && this.charAt(end - 1) === '\n') end--
+            const start = operator === 'd' ? this.deletedLinesStart(this.lineStart(pos), end) : this.lineStart(pos)
+
+            this.operate(operator, start, end, operator !== 'c', register)
+        } else if (operator) {
+            const motion = operator === 'c' && rest === 'w' && this.charClass(this.charAt(pos))
+                ? this.changeWordMotion(pos, count)
+                : this.motion(rest, pos, count)
+            let start = Math.min(pos, motion.pos)
+            let end = this.charOffset(Math.max(pos, motion.pos), motion.inclusive ? 1 : 0, true)
+
+            if (motion.linewise) {
+                end = Math.min(this.lineEnd(end) + 1, this.data.getLength())
+                start = operator === 'd' ? this.deletedLinesStart(this.lineStart(start), end) : this.lineStart(start)
+            }
+            this.operate(operator, start, end, !!motion.linewise, register)
+        } else if (motionKeys.test(rest)) {
+            const target = this.motion(rest, this.mode === 'visual' ? this.head : pos, count).pos
+
+            if (this.mode === 'visual') {
+                this.head = target
+                this.selectVisual()
+            } else this.moveTo(rest === '$' ? Math.max(this.lineStart(target), this.charOffset(target, 1, false)) : target)
+        } else this.simple(rest, count, register, pos)
+    }
+
+    simple(key: string, count: number, register: string, pos: number) {
+        const lineStart = this.lineStart(pos)
+        const lineEnd = this.lineEnd(pos)
+
+        switch (key) {
+            case 'x': return this.operate('d', pos, Math.min(this.charOffset(pos, count, true), lineEnd), false, register)
+            case 'X': return this.operate('d', Math.max(lineStart, this.charOffset(pos, count, false)), pos, false, register)
+            case 'p': case 'P': return this.put(key === 'p', count, register, pos)
+            case 'i': return this.startInsert(pos)
+            case 'a': return this.startInsert(Math.min(this.charOffset(pos, 1, true), lineEnd))
+            case 'I': return this.startInsert(lineStart)
+            case 'A': return this.startInsert(lineEnd)
+            case 'o':
+                this.editor.replaceDocRange({start: lineEnd, end: lineEnd}, '\n')
+                return this.startInsert(lineEnd + 1)
+            case 'O':
+                this.editor.replaceDocRange({start: lineStart, end: lineStart}, '\n')
+                return this.startInsert(lineStart)
+            case 'v':
+                this.anchor = this.head = pos
+                this.setMode('visual')
+                return this.selectVisual()
+            case 'u':
+                for (let i = 0; i < count; i++) this.editor.undo()
+                return
+            case '.': return this.repeat()
+        }
+    }
+
+    /** delete, change, or yank start..end */
+    operate(operator: string, start: number, end: number, linewise: boolean, register: string) {
+        if (start >= end && operator !== 'c') return
+        const text = this.data.getDocSubstring(start, end)
+
+        // linewise registers hold lines with their newlines, even the last line's
+        this.setRegister(register, {text: linewise && !text.endsWith('\n') ? text.replace(/^\n/, '') + '\n' : text, linewise}, operator === 'y')
+        if (operator === 'y') return this.moveTo(start)
+        this.editor.replaceDocRange({start, end}, '')
+        if (operator === 'c') this.startInsert(start)
+        else if (linewise) this.moveTo(this.lineStart(start))
+    }
+
+    /** deleting lines through the end of the document also deletes the newline before them, since the last line has none */
+    deletedLinesStart(start: number, end: number) {
+        return end === this.data.getLength() && start > 0 && this.charAt(end - 1) !== '\n' ? start - 1 : start
+    }
+
+    put(after: boolean, count: number, register: string, pos: number) {
+        const reg = this.registers[register?.toLowerCase() ?? '"']
+
+        if (!reg?.text) return
+        const text = reg.text.repeat(count)
+
+        if (reg.linewise) {
+            const lineEnd = this.lineEnd(pos)
+
+            if (after && lineEnd === this.data.getLength()) {
+                // the last line has no newline to put the text after
+                this.editor.replaceDocRange({start: lineEnd, end: lineEnd}, '\n' + text.replace(/\n$/, ''))
+                return this.moveTo(lineEnd + 1)
+            }
+            const at = after ? lineEnd + 1 : this.lineStart(pos)
+
+            this.editor.replaceDocRange({start: at, end: at}, text)
+            this.moveTo(at)
+        } else {
+            const at = after ? Math.min(this.charOffset(pos, 1, true), this.lineEnd(pos)) : pos
+
+            this.editor.replaceDocRange({start: at, end: at}, text)
+            this.moveTo(this.charOffset(at + text.length, 1, false))
+        }
+    }
+
+    setRegister(name: string, reg: register, yank: boolean) {
+        if (name && name !== '"') {
+            const lower = name.toLowerCase()
+            const old = this.registers[lower]
+
+            this.registers[lower] = name !== lower && old
+                ? {text: old.text + reg.text, linewise: old.linewise || reg.linewise}
+                : reg
+        } else if (yank) this.registers['0'] = reg
+        this.registers['"'] = reg
+    }
+
+    startInsert(pos: number) {
+        this.moveTo(pos)
+        this.insertStart = pos
+        this.recording = this.replaying ? null : this.lastChange
+        this.setMode('insert')
+    }
+
+    escape() {
+        this.pending = ''
+        if (this.mode === 'insert') {
+            const pos = this.caret()
+
+            if (this.recording && pos != null && pos > this.insertStart) {
+                this.recording.text = this.data.getDocSubstring(this.insertStart, pos)
+            }
+            this.recording = null
+            this.setMode('normal')
+            if (pos != null && pos > this.lineStart(pos)) this.moveTo(this.charOffset(pos, 1, false))
+        } else if (this.mode === 'visual') {
+            this.setMode('normal')
+            this.moveTo(this.head)
+        }
+    }
+
+    repeat() {
+        const change = this.lastChange
+
+        if (!change) return
+        this.replaying = true
+        try {
+            this.run(change.keys)
+            if (this.mode === 'insert') {
+                const pos = this.caret()
+
+                this.editor.replaceDocRange({start: pos, end: pos}, change.text)
+                this.escape()
+            }
+        } finally {
+            this.replaying = false
+        }
+    }
+
+    motion(key: string, pos: number, count: number): motionResult {
+        for (let i = 0; i < count; i++) {
+            switch (key) {
+                case 'h': pos = Math.max(this.lineStart(pos), this.charOffset(pos, 1, false)); break
+                case 'l': pos = Math.min(this.lineEnd(pos), this.charOffset(pos, 1, true)); break
+                case 'w': pos = this.wordForward(pos); break
+                case 'e': pos = this.wordEnd(pos); break
+                case 'b': pos = this.wordBackward(pos); break
+                case 'j': pos = this.lineBelow(pos); break
+                case 'k': pos = this.lineAbove(pos); break
+            }
+        }
+        switch (key) {
+            case '0': return {pos: this.lineStart(pos)}
+            case '$': return {pos: this.lineEnd(pos)}
+            case 'gg': return {pos: this.lineOffset(count - 1), linewise: true}
+            case 'G': return {pos: this.lineOffset(count > 1 ? count - 1 : Infinity), linewise: true}
+            case 'j': case 'k': return {pos, linewise: true}
+            case 'e': return {pos, inclusive: true}
+        }
+        return {pos}
+    }
+
+    /** like vim, cw on a word changes to the end of the word instead of the start of the next one */
+    changeWordMotion(pos: number, count: number): motionResult {
+        const cls = this.charClass(this.charAt(pos))
+
+        while (this.charClass(this.charAt(pos + 1)) === cls) pos++
+        return count > 1 ? this.motion('e', pos, count - 1) : {pos, inclusive: true}
+    }
+
+    /** 0 for whitespace (and the ends of the document), 1 for word characters, 2 for other characters */
+    charClass(ch: string) {
+        return !ch || /\s/.test(ch) ? 0 : wordChar.test(ch) ? 1 : 2
+    }
+
+    wordForward(pos: number) {
+        const length = this.data.getLength()
+        const cls = this.charClass(this.charAt(pos))
+
+        while (pos < length && cls && this.charClass(this.charAt(pos)) === cls) pos++
+        while (pos < length && !this.charClass(this.charAt(pos))) pos++
+        return pos
+    }
+
+    wordEnd(pos: number) {
+        const length = this.data.getLength()
+
+        pos++
+        while (pos < length && !this.charClass(this.charAt(pos))) pos++
+        const cls = this.charClass(this.charAt(pos))
+
+        while (pos + 1 < length && this.charClass(this.charAt(pos + 1)) === cls) pos++
+        return Math.min(pos, length - 1)
+    }
+
+    wordBackward(pos: number) {
+        pos--
+        while (pos > 0 && !this.charClass(this.charAt(pos))) pos--
+        const cls = this.charClass(this.charAt(pos))
+
+        while (pos > 0 && this.charClass(this.charAt(pos - 1)) === cls) pos--
+        return Math.max(pos, 0)
+    }
+
+    /** the offset count grapheme clusters after (or before) pos */
+    charOffset(pos: number, count: number, forward: boolean) {
+        for (let i = 0; i < count; i++) pos = this.data.graphemeBoundary(pos, forward)
+        return pos
+    }
+
+    charAt(pos: number) {
+        if (pos < 0 || pos >= this.data.getLength()) return ''
+        const {block, offset} = this.data.blockOffsetForDocOffset(pos)
+
+        return this.data.getBlock(block).text[offset]
+    }
+
+    /** the start of pos's line, which can be in an earlier block */
+    lineStart(pos: number) {
+        const {block: id, offset} = this.data.blockOffsetForDocOffset(pos)
+        let block = this.data.getBlock(id)
+        let blockStart = pos - offset
+        let newline = offset ? block.text.lastIndexOf('\n', offset - 1) : -1
+
+        while (newline === -1 && block.prev) {
+            block = this.data.getBlock(block.prev)
+            blockStart -= block.text.length
+            newline = block.text.lastIndexOf('\n')
+        }
+        return blockStart + newline + 1
+    }
+
+    /** the end of pos's line, before its newline, which can be in a later block */
+    lineEnd(pos: number) {
+        const {block: id, offset} = this.data.blockOffsetForDocOffset(pos)
+        let block = this.data.getBlock(id)
+        let blockStart = pos - offset
+        let newline = block.text.indexOf('\n', offset)
+
+        while (newline === -1 && block.next) {
+            blockStart += block.text.length
+            block = this.data.getBlock(block.next)
+            newline = block.text.indexOf('\n')
+        }
+        return blockStart + (newline === -1 ? block.text.length : newline)
+    }
+
+    /** the offset in the line after pos's at pos's column, or pos on the last line */
+    lineBelow(pos: number) {
+        const end = this.lineEnd(pos)
+
+        // a newline at the end of the document has no line after it
+        return end + 1 >= this.data.getLength() ? pos : this.atColumn(end + 1, this.column(pos))
+    }
+
+    /** the offset in the line before pos's at pos's column, or pos on the first line */
+    lineAbove(pos: number) {
+        const start = this.lineStart(pos)
+
+        return start === 0 ? pos : this.atColumn(this.lineStart(start - 1), this.column(pos))
+    }
+
+    /** the number of characters (grapheme clusters) between the start of pos's line and pos */
+    column(pos: number) {
+        let column = 0
+
+        for (let p = this.lineStart(pos); p < pos; p = this.charOffset(p, 1, true)) column++
+        return column
+    }
+
+    /** the offset column characters into the line that starts at lineStart, or its end */
+    atColumn(lineStart: number, column: number) {
+        return Math.min(this.charOffset(lineStart, column, true), this.lineEnd(lineStart))
+    }
+
+    /** the offset of line n (counting from 0), or of the last line */
+    lineOffset(n: number) {
+        const length = this.data.getLength()
+        let offset = 0
+        let line = 0
+        let lineStart = 0
+
+        for (let block = this.data.getBlock(this.data.getFirst()); block && line < n; block = this.data.getBlock(block.next)) {
+            for (let i = block.text.indexOf('\n'); i !== -1 && line < n; i = block.text.indexOf('\n', i + 1)) {
+                // a newline at the end of the document has no line after it
+                if (offset + i + 1 >= length) return lineStart
+                lineStart = offset + i + 1
+                line++
+            }
+            offset += block.text.length
+        }
+        return lineStart
+    }
+
+    caret() {
+        const range = this.editor.getSelectedDocRange()
+
+        return range.type === 'None' ? null : this.mode === 'visual' ? this.head : range.start
+    }
+
+    moveTo(pos: number) {
+        const node = this.editor.node[0]
+
+        this.editor.selectDocRange({type: 'Caret', start: pos, length: 0, scrollTop: node.scrollTop, scrollLeft: node.scrollLeft})
+    }
+
+    /** the end of the visual selection, which includes the character at its last position */
+    visualEnd() {
+        return this.charOffset(Math.max(this.anchor, this.head), 1, true)
+    }
+
+    selectVisual() {
+        const start = Math.min(this.anchor, this.head)
+        const node = this.editor.node[0]
+
+        this.editor.selectDocRange({
+            type: 'Range', start, length: this.visualEnd() - start,
+            scrollTop: node.scrollTop, scrollLeft: node.scrollLeft,
+        })
+    }
+}